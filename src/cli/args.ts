@@ -0,0 +1,257 @@
+/**
+ * Command line argument parsing for the token-transformer CLI
+ */
+
+import { TokenCategory } from '../core/types.js';
+import { ReportFormat } from '../reporters/audit.js';
+import { AlphaFormat } from '../transformers/styleTransformer.js';
+import { ColorDistanceMetric } from '../utils/colorUtils.js';
+
+/**
+ * CLI commands
+ */
+export type CliCommand = 'scan' | 'fix';
+
+/**
+ * Parsed command line options
+ */
+export interface CliOptions {
+  /** Command to run */
+  command: CliCommand;
+
+  /** File globs to process */
+  globs: string[];
+
+  /** Path to the design token definitions */
+  tokens: string;
+
+  /** Minimum confidence (0-1) for suggestions and replacements */
+  threshold?: number;
+
+  /** Limit processing to specific token categories */
+  categories?: TokenCategory[];
+
+  /** Token mode to match against (e.g., "dark"), or "all" for every mode */
+  mode?: string;
+
+  /** Color distance metric for approximate color matches */
+  colorMetric?: ColorDistanceMetric;
+
+  /** Root font size in pixels for comparing px, rem and em lengths */
+  rootFontSize?: number;
+
+  /** Maximum relative difference (0-1) between a length and a near-matching token */
+  tolerance?: number;
+
+  /** Class-composing helpers whose arguments hold Tailwind classes */
+  classFunctions?: string[];
+
+  /** Also report classes from Tailwind's default palette and spacing scale */
+  defaultTheme: boolean;
+
+  /** Directory that imported style objects may be followed within (defaults to the working directory) */
+  projectRoot?: string;
+
+  /** CSS syntax for token references with an opacity (fix only) */
+  alphaFormat?: AlphaFormat;
+
+  /** Output format */
+  format: ReportFormat;
+
+  /** File to write the report to instead of standard output */
+  output?: string;
+
+  /** Print a unified diff instead of writing files (fix only) */
+  dryRun: boolean;
+}
+
+/**
+ * Error raised for invalid command line usage
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const COMMANDS: CliCommand[] = ['scan', 'fix'];
+const FORMATS: ReportFormat[] = ['text', 'json', 'sarif', 'markdown'];
+const CATEGORIES: TokenCategory[] = ['color', 'typography', 'spacing', 'borderRadius', 'shadow'];
+const COLOR_METRICS: ColorDistanceMetric[] = ['oklab', 'ciede2000', 'rgb'];
+const ALPHA_FORMATS: AlphaFormat[] = ['color-mix', 'relative-color'];
+const VALUE_FLAGS = ['tokens', 'threshold', 'categories', 'mode', 'color-metric', 'root-font-size', 'tolerance', 'class-functions', 'project-root', 'alpha-format', 'format', 'output'];
+const BOOLEAN_FLAGS = ['default-theme', 'dry-run'];
+
+/**
+ * Usage text printed for --help and usage errors
+ */
+export const USAGE = `Usage: token-transformer <scan|fix> <globs...> --tokens <path> [options]
+
+Commands:
+  scan <globs...>        Report hardcoded style values
+  fix <globs...>         Replace hardcoded style values with token references
+
+Options:
+  --tokens <path>        Token definitions: CSS, DTCG .json or Tailwind config .js (required)
+  --threshold <number>   Minimum match confidence between 0 and 1
+  --categories <list>    Comma-separated categories (${CATEGORIES.join(', ')})
+  --mode <name>          Match token values for a theme mode (e.g., dark), or all modes
+  --color-metric <name>  Color distance metric (${COLOR_METRICS.join(', ')}), defaults to oklab
+  --root-font-size <px>  Root font size for comparing px, rem and em lengths, defaults to 16
+  --tolerance <number>   Maximum relative difference for near length matches, defaults to 0.1
+  --class-functions <list>  Comma-separated helpers whose arguments hold classes, defaults to clsx, cn, cva...
+  --default-theme        Also report classes from Tailwind's default palette and spacing (e.g., bg-blue-500, p-3)
+  --project-root <dir>   Follow style objects imported from modules in this directory, defaults to the working directory
+  --alpha-format <name>  Syntax for translucent token colors (${ALPHA_FORMATS.join(', ')}), defaults to color-mix
+  --format <format>      Output format (${FORMATS.join(', ')}), defaults to text
+  --output <path>        Write the report to a file instead of standard output
+  --dry-run              Print a unified diff for fix instead of writing files
+  -h, --help             Show this help
+`;
+
+/**
+ * Parse command line arguments
+ * @param argv Arguments without the node executable and script path
+ * @returns Parsed CLI options
+ * @throws CliUsageError when the arguments are invalid
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  const booleanFlags = new Set<string>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    // Support both --flag value and --flag=value
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+
+    if (BOOLEAN_FLAGS.includes(name)) {
+      booleanFlags.add(name);
+      continue;
+    }
+
+    if (!VALUE_FLAGS.includes(name)) {
+      throw new CliUsageError(`Unknown option: --${name}`);
+    }
+
+    const value = inlineValue ?? argv[++i];
+
+    // Empty values (`--threshold=`) would otherwise read as 0 or an empty list
+    if (value === undefined || value.startsWith('--') || value.trim() === '') {
+      throw new CliUsageError(`Missing value for --${name}`);
+    }
+
+    flags[name] = value;
+  }
+
+  const [command, ...globs] = positional;
+
+  if (!COMMANDS.includes(command as CliCommand)) {
+    throw new CliUsageError(command ? `Unknown command: ${command}` : 'No command specified');
+  }
+
+  if (globs.length === 0) {
+    throw new CliUsageError('No file globs specified');
+  }
+
+  if (!flags.tokens) {
+    throw new CliUsageError('Missing required option --tokens');
+  }
+
+  const options: CliOptions = {
+    command: command as CliCommand,
+    globs,
+    tokens: flags.tokens,
+    format: 'text',
+    defaultTheme: booleanFlags.has('default-theme'),
+    dryRun: booleanFlags.has('dry-run')
+  };
+
+  if (flags.threshold !== undefined) {
+    const threshold = Number(flags.threshold);
+    if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+      throw new CliUsageError(`Invalid --threshold: ${flags.threshold} (expected a number between 0 and 1)`);
+    }
+    options.threshold = threshold;
+  }
+
+  if (flags.categories !== undefined) {
+    const categories = flags.categories.split(',').map(category => category.trim()).filter(Boolean);
+    const invalid = categories.filter(category => !CATEGORIES.includes(category as TokenCategory));
+    if (invalid.length > 0) {
+      throw new CliUsageError(`Invalid --categories: ${invalid.join(', ')}`);
+    }
+    options.categories = categories as TokenCategory[];
+  }
+
+  if (flags.mode !== undefined) {
+    options.mode = flags.mode;
+  }
+
+  if (flags['color-metric'] !== undefined) {
+    if (!COLOR_METRICS.includes(flags['color-metric'] as ColorDistanceMetric)) {
+      throw new CliUsageError(`Invalid --color-metric: ${flags['color-metric']}`);
+    }
+    options.colorMetric = flags['color-metric'] as ColorDistanceMetric;
+  }
+
+  if (flags['root-font-size'] !== undefined) {
+    const rootFontSize = Number(flags['root-font-size']);
+    if (isNaN(rootFontSize) || rootFontSize <= 0) {
+      throw new CliUsageError(`Invalid --root-font-size: ${flags['root-font-size']} (expected a positive number)`);
+    }
+    options.rootFontSize = rootFontSize;
+  }
+
+  if (flags.tolerance !== undefined) {
+    const tolerance = Number(flags.tolerance);
+    if (isNaN(tolerance) || tolerance < 0 || tolerance > 1) {
+      throw new CliUsageError(`Invalid --tolerance: ${flags.tolerance} (expected a number between 0 and 1)`);
+    }
+    options.tolerance = tolerance;
+  }
+
+  if (flags['class-functions'] !== undefined) {
+    const classFunctions = flags['class-functions'].split(',').map(name => name.trim()).filter(Boolean);
+    const invalid = classFunctions.filter(name => !/^[A-Za-z_$][\w$]*$/.test(name));
+    if (classFunctions.length === 0 || invalid.length > 0) {
+      throw new CliUsageError(`Invalid --class-functions: ${flags['class-functions']}`);
+    }
+    options.classFunctions = classFunctions;
+  }
+
+  if (flags['project-root'] !== undefined) {
+    options.projectRoot = flags['project-root'];
+  }
+
+  if (flags['alpha-format'] !== undefined) {
+    if (!ALPHA_FORMATS.includes(flags['alpha-format'] as AlphaFormat)) {
+      throw new CliUsageError(`Invalid --alpha-format: ${flags['alpha-format']}`);
+    }
+    options.alphaFormat = flags['alpha-format'] as AlphaFormat;
+  }
+
+  if (flags.format !== undefined) {
+    if (!FORMATS.includes(flags.format as ReportFormat)) {
+      throw new CliUsageError(`Invalid --format: ${flags.format}`);
+    }
+    options.format = flags.format as ReportFormat;
+  }
+
+  if (options.command === 'fix' && !['text', 'json'].includes(options.format)) {
+    throw new CliUsageError(`--format ${options.format} is only supported by scan`);
+  }
+
+  if (flags.output !== undefined) {
+    options.output = flags.output;
+  }
+
+  return options;
+}
@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+/**
+ * token-transformer command line entry point
+ */
+
+import { runCli } from './run.js';
+
+runCli(process.argv.slice(2)).then(
+  exitCode => {
+    process.exitCode = exitCode;
+  },
+  error => {
+    process.stderr.write(`${(error as Error).stack ?? error}\n`);
+    process.exitCode = 3;
+  }
+);
@@ -0,0 +1,259 @@
+/**
+ * Command implementations for the token-transformer CLI
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import fg from 'fast-glob';
+import { TokenRegistry } from '../core/TokenRegistry.js';
+import { TransformationResult } from '../core/types.js';
+import { transformComponent } from '../index.js';
+import { auditFiles, createReporter } from '../reporters/audit.js';
+import { CliOptions, CliUsageError, USAGE, parseCliArgs } from './args.js';
+
+/**
+ * Process exit codes returned by the CLI
+ */
+export const EXIT_CODES = {
+  /** Command succeeded and no hardcoded values were found */
+  SUCCESS: 0,
+  /** Scan found hardcoded values, or a dry-run fix would change files */
+  FINDINGS: 1,
+  /** Invalid usage or configuration */
+  USAGE_ERROR: 2,
+  /** Unexpected failure while processing files, or a file could not be fixed */
+  RUNTIME_ERROR: 3
+} as const;
+
+/**
+ * Output streams used by the CLI
+ */
+export interface CliIO {
+  /** Write to standard output */
+  out(text: string): void;
+
+  /** Write to standard error */
+  err(text: string): void;
+}
+
+/**
+ * Changes made by the fix command to a single file
+ */
+export interface FixedFile {
+  /** File that was rewritten */
+  filePath: string;
+
+  /** Transformations applied to the file */
+  transformations: TransformationResult[];
+
+  /** Unified diff of the changes (dry-run only) */
+  diff?: string;
+}
+
+const defaultIO: CliIO = {
+  out: text => process.stdout.write(text),
+  err: text => process.stderr.write(text)
+};
+
+/**
+ * Run the CLI
+ * @param argv Arguments without the node executable and script path
+ * @param io Output streams
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[], io: CliIO = defaultIO): Promise<number> {
+  if (argv.includes('-h') || argv.includes('--help')) {
+    io.out(USAGE);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      io.err(`${error.message}\n\n${USAGE}`);
+      return EXIT_CODES.USAGE_ERROR;
+    }
+    throw error;
+  }
+
+  let registry: TokenRegistry;
+  try {
+    registry = await TokenRegistry.fromFile(options.tokens);
+  } catch (error) {
+    io.err(`${(error as Error).message}\n`);
+    return EXIT_CODES.USAGE_ERROR;
+  }
+
+  const files = await resolveFiles(options.globs);
+  if (files.length === 0) {
+    io.err(`No files matched: ${options.globs.join(' ')}\n`);
+    return EXIT_CODES.USAGE_ERROR;
+  }
+
+  try {
+    return options.command === 'scan'
+      ? await scanCommand(files, registry, options, io)
+      : await fixCommand(files, registry, options, io);
+  } catch (error) {
+    io.err(`${(error as Error).message}\n`);
+    return EXIT_CODES.RUNTIME_ERROR;
+  }
+}
+
+/**
+ * Expand file globs
+ * @param globs File globs
+ * @returns Matching file paths, sorted
+ */
+export async function resolveFiles(globs: string[]): Promise<string[]> {
+  const files = await fg(globs, {
+    ignore: ['**/node_modules/**', '**/dist/**'],
+    onlyFiles: true
+  });
+  return files.sort();
+}
+
+/**
+ * Report hardcoded values in files
+ * @param files Files to scan
+ * @param registry Initialized token registry
+ * @param options CLI options
+ * @param io Output streams
+ * @returns FINDINGS exit code if any hardcoded value was found
+ */
+async function scanCommand(
+  files: string[],
+  registry: TokenRegistry,
+  options: CliOptions,
+  io: CliIO
+): Promise<number> {
+  const report = await auditFiles(files, registry, {
+    ...options,
+    projectRoot: options.projectRoot ?? process.cwd()
+  });
+  await writeOutput(createReporter(options.format).format(report), options, io);
+
+  return report.summary.totalFindings > 0 ? EXIT_CODES.FINDINGS : EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Rewrite hardcoded values in files to token references
+ * In dry-run mode, print unified diffs and leave files untouched.
+ * @param files Files to fix
+ * @param registry Initialized token registry
+ * @param options CLI options
+ * @param io Output streams
+ * @returns RUNTIME_ERROR if any file could not be fixed, FINDINGS if a dry run
+ * would change files, SUCCESS otherwise
+ */
+async function fixCommand(
+  files: string[],
+  registry: TokenRegistry,
+  options: CliOptions,
+  io: CliIO
+): Promise<number> {
+  const fixed: FixedFile[] = [];
+  let failed = false;
+
+  for (const filePath of files) {
+    // A file that cannot be fixed fails the run without stopping the other files
+    try {
+      const file = await fixFile(filePath, registry, options);
+      if (file) {
+        fixed.push(file);
+      }
+    } catch (error) {
+      io.err(`Failed to fix ${filePath}: ${(error as Error).message}\n`);
+      failed = true;
+    }
+  }
+
+  let output = '';
+
+  if (options.format === 'json') {
+    output = JSON.stringify(fixed.map(file => ({
+      file: file.filePath,
+      diff: file.diff,
+      replacements: file.transformations.map(transformation => ({
+        line: transformation.match?.location.line,
+        original: transformation.original,
+        transformed: transformation.transformed,
+        confidence: transformation.confidence
+      }))
+    })), null, 2) + '\n';
+  } else if (options.dryRun) {
+    // Only the diff is printed so it can be piped into `git apply`
+    output = fixed.map(file => file.diff ?? '').join('');
+  } else {
+    const total = fixed.reduce((sum, file) => sum + file.transformations.length, 0);
+    output = fixed
+      .map(file => `${file.filePath}: ${file.transformations.length} replacement(s)\n`)
+      .join('') + `\n${total} replacement(s) in ${fixed.length} file(s)\n`;
+  }
+
+  await writeOutput(output, options, io);
+
+  if (failed) {
+    return EXIT_CODES.RUNTIME_ERROR;
+  }
+
+  return options.dryRun && fixed.length > 0 ? EXIT_CODES.FINDINGS : EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Rewrite hardcoded values in a single file
+ * @param filePath File to fix
+ * @param registry Initialized token registry
+ * @param options CLI options
+ * @returns Changes to the file (not yet written in dry-run mode), or null if nothing changed
+ */
+async function fixFile(filePath: string, registry: TokenRegistry, options: CliOptions): Promise<FixedFile | null> {
+  const source = await fs.readFile(filePath, 'utf-8');
+  const { code, transformations, diff } = await transformComponent(source, {
+    registry,
+    // Diff headers use paths relative to the working directory
+    filePath: path.relative(process.cwd(), filePath),
+    threshold: options.threshold,
+    categories: options.categories,
+    mode: options.mode,
+    colorMetric: options.colorMetric,
+    alphaFormat: options.alphaFormat,
+    rootFontSize: options.rootFontSize,
+    tolerance: options.tolerance,
+    classFunctions: options.classFunctions,
+    defaultTheme: options.defaultTheme,
+    projectRoot: options.projectRoot ?? process.cwd(),
+    dryRun: options.dryRun
+  });
+
+  if (transformations.length === 0) {
+    return null;
+  }
+
+  if (options.dryRun) {
+    return { filePath, transformations, diff };
+  }
+
+  if (code === source) {
+    return null;
+  }
+
+  await fs.writeFile(filePath, code, 'utf-8');
+  return { filePath, transformations };
+}
+
+/**
+ * Write command output to the --output file or standard output
+ * @param output Command output
+ * @param options CLI options
+ * @param io Output streams
+ */
+async function writeOutput(output: string, options: CliOptions, io: CliIO): Promise<void> {
+  if (options.output) {
+    await fs.writeFile(options.output, output, 'utf-8');
+  } else {
+    io.out(output);
+  }
+}
@@ -4,6 +4,7 @@
 
 import fs from 'fs/promises';
 import path from 'path';
+import { pathToFileURL } from 'url';
 import { 
   TokenRegistryOptions, 
   DesignToken, 
@@ -14,9 +15,40 @@ import {
   ShadowToken,
   TokenCategory,
   TokenMatch,
-  TokenMatchOptions
+  TokenMatchOptions,
+  TokenDefinition
 } from './types.js';
-import { parseColor, calculateColorDistance } from '../utils/colorUtils.js';
+import { parseDtcgTokens } from './dtcgLoader.js';
+import { getTailwindClasses, parseTailwindTheme } from './tailwindLoader.js';
+import { parseColor, calculateColorDistance, isColorString, isSameAlpha, rgbToHex } from '../utils/colorUtils.js';
+import { findVarReferences, parseCssDeclarations, parseVarFunction, splitTopLevel } from '../utils/cssUtils.js';
+import { compareShadows, parseShadow } from '../utils/shadowUtils.js';
+import { compareTypography } from '../utils/typographyUtils.js';
+import { toPixels } from '../utils/unitUtils.js';
+
+/**
+ * A CSS variable resolved through its `var()` references
+ */
+interface ResolvedVariable {
+  /** Final value with all references replaced */
+  value: string;
+
+  /** Variables aliased on the way to the value, nearest first */
+  aliasChain: string[];
+}
+
+/**
+ * Tailwind v4 theme namespace and primary utility of each token category
+ * Variables in an `@theme` block under these namespaces become utility classes
+ * (e.g., `--color-primary` becomes `text-primary`, `bg-primary`, ...).
+ */
+const THEME_NAMESPACES: Record<TokenCategory, { prefix: string; utility: string }> = {
+  color: { prefix: '--color-', utility: 'text' },
+  typography: { prefix: '--text-', utility: 'text' },
+  spacing: { prefix: '--spacing-', utility: 'p' },
+  borderRadius: { prefix: '--radius-', utility: 'rounded' },
+  shadow: { prefix: '--shadow-', utility: 'shadow' }
+};
 
 /**
  * Registry for design tokens
@@ -29,6 +61,9 @@ export class TokenRegistry {
   private borderRadiusTokens: BorderRadiusToken[] = [];
   private shadowTokens: ShadowToken[] = [];
   private cssVars: Map<string, string> = new Map();
+  private modeVars: Map<string, Map<string, string>> = new Map();
+  private modeConditions: Map<string, string[]> = new Map();
+  private themeVars: Set<string> = new Set();
   private initialized = false;
 
   /**
@@ -37,84 +72,416 @@ export class TokenRegistry {
    */
   constructor(private options: TokenRegistryOptions = {}) {}
 
+  /**
+   * Create an initialized registry from a token file
+   * `.json` files are read as DTCG tokens, `.js`/`.cjs`/`.mjs` files as Tailwind
+   * configs and anything else as CSS.
+   * @param tokenPath Path to the token file
+   * @returns Initialized token registry
+   */
+  static async fromFile(tokenPath: string): Promise<TokenRegistry> {
+    let registry: TokenRegistry;
+
+    if (/\.json$/i.test(tokenPath)) {
+      registry = new TokenRegistry({ dtcgPath: tokenPath });
+    } else if (/\.[cm]?js$/i.test(tokenPath)) {
+      const module = await import(pathToFileURL(path.resolve(tokenPath)).href);
+      registry = new TokenRegistry({ tailwindConfig: module.default ?? module });
+    } else {
+      registry = new TokenRegistry({ cssPath: tokenPath });
+    }
+
+    await registry.initialize();
+    return registry;
+  }
+
   /**
    * Initialize the token registry
-   * Loads tokens from CSS file or content
+   * Loads tokens from CSS, DTCG and Tailwind config sources
    */
   async initialize(): Promise<void> {
     if (this.initialized) {
       return;
     }
     
-    let cssContent = '';
+    const hasCssSource = Boolean(this.options.cssPath || this.options.cssContent);
+    const hasDtcgSource = Boolean(this.options.dtcgPath || this.options.dtcgContent);
+    const hasTailwindSource = Boolean(this.options.tailwindConfig);
     
-    // Load CSS from file if path is provided
-    if (this.options.cssPath) {
-      try {
-        cssContent = await fs.readFile(this.options.cssPath, 'utf-8');
-      } catch (error) {
-        throw new Error(`Failed to read CSS file: ${(error as Error).message}`);
+    // Throw error if no source is provided
+    if (!hasCssSource && !hasDtcgSource && !hasTailwindSource) {
+      throw new Error('No token source provided. Specify cssPath, cssContent, dtcgPath, dtcgContent or tailwindConfig.');
+    }
+    
+    if (hasCssSource) {
+      let cssContent = '';
+      
+      // Load CSS from file if path is provided
+      if (this.options.cssPath) {
+        try {
+          cssContent = await fs.readFile(this.options.cssPath, 'utf-8');
+        } catch (error) {
+          throw new Error(`Failed to read CSS file: ${(error as Error).message}`);
+        }
+      } 
+      // Use provided CSS content
+      else if (this.options.cssContent) {
+        cssContent = this.options.cssContent;
       }
-    } 
-    // Use provided CSS content
-    else if (this.options.cssContent) {
-      cssContent = this.options.cssContent;
+      
+      // Parse CSS variables
+      this.parseCssVariables(cssContent);
+      
+      // Create token objects from CSS variables
+      this.createTokens();
     }
-    // Throw error if no source is provided
-    else {
-      throw new Error('No CSS source provided. Specify cssPath or cssContent.');
+    
+    if (hasDtcgSource) {
+      let dtcgContent: string | Record<string, unknown> = '';
+      
+      // Load DTCG tokens from file if path is provided
+      if (this.options.dtcgPath) {
+        try {
+          dtcgContent = await fs.readFile(this.options.dtcgPath, 'utf-8');
+        } catch (error) {
+          throw new Error(`Failed to read DTCG file: ${(error as Error).message}`);
+        }
+      }
+      // Use provided DTCG content
+      else if (this.options.dtcgContent) {
+        dtcgContent = this.options.dtcgContent;
+      }
+      
+      this.addDefinitions(parseDtcgTokens(dtcgContent));
     }
     
-    // Parse CSS variables
-    this.parseCssVariables(cssContent);
+    if (this.options.tailwindConfig) {
+      this.addDefinitions(parseTailwindTheme(this.options.tailwindConfig));
+    }
     
-    // Create token objects from CSS variables
-    this.createTokens();
+    for (const token of this.getAllTokens()) {
+      if (token.tailwindKey !== undefined) {
+        token.tailwindClasses = getTailwindClasses(token);
+      }
+    }
     
     this.initialized = true;
   }
   
+  /**
+   * Create tokens from definitions produced by a token source loader
+   * @param definitions Token definitions
+   */
+  private addDefinitions(definitions: TokenDefinition[]): void {
+    for (const definition of definitions) {
+      const { cssVariable, value } = definition;
+      const name = definition.name ?? (cssVariable && this.getNameFromCssVariable(cssVariable));
+      let token: DesignToken | undefined;
+      
+      // Definitions need a name or a variable to derive one from
+      if (!name) {
+        continue;
+      }
+      
+      if (typeof value !== 'string') {
+        token = this.typographyTokens.find(t => t.name === name);
+        if (token) {
+          Object.assign(token.value, value);
+        } else {
+          token = { name, cssVariable, category: 'typography', value: { ...value } };
+          this.typographyTokens.push(token);
+        }
+      } else if (definition.category === 'color') {
+        // Skip colors in formats we cannot parse, as CSS variables do
+        if (this.isColorValue(value)) {
+          token = this.createColorToken(name, cssVariable, value);
+        }
+      } else if (definition.category === 'spacing') {
+        token = this.createSpacingToken(name, cssVariable, value);
+      } else if (definition.category === 'borderRadius') {
+        token = this.createBorderRadiusToken(name, cssVariable, value);
+      } else if (definition.category === 'shadow') {
+        token = this.createShadowToken(name, cssVariable, value);
+      }
+      
+      if (token && definition.description) {
+        token.description = definition.description;
+      }
+      
+      if (token && definition.tailwindClass) {
+        token.tailwindClass = definition.tailwindClass;
+      }
+      
+      if (token && definition.tailwindKey) {
+        token.tailwindKey = definition.tailwindKey;
+      }
+      
+      if (token && definition.themePath) {
+        token.themePath = definition.themePath;
+      }
+    }
+  }
+  
   /**
    * Parse CSS variables from CSS content
+   * Variables declared under a theme selector or color scheme media query are
+   * kept per mode instead of overwriting the base value.
    * @param cssContent CSS content with variable definitions
    */
   private parseCssVariables(cssContent: string): void {
-    // Find all CSS variable declarations
-    const variableRegex = /--([a-zA-Z0-9_-]+)\s*:\s*([^;]+);/g;
-    let match;
+    for (const declaration of parseCssDeclarations(cssContent)) {
+      if (!declaration.property.startsWith('--')) {
+        continue;
+      }
+      
+      const mode = this.getModeFromSelectors(declaration.selectors);
+      
+      // Only variables in an `@theme` block generate Tailwind utilities
+      if (declaration.selectors.some(selector => /^@theme\b/.test(selector))) {
+        this.themeVars.add(declaration.property);
+      }
+      
+      if (!mode) {
+        this.cssVars.set(declaration.property, declaration.value);
+        continue;
+      }
+      
+      let variables = this.modeVars.get(mode);
+      if (!variables) {
+        variables = new Map();
+        this.modeVars.set(mode, variables);
+      }
+      variables.set(declaration.property, declaration.value);
+      
+      // Several selectors or media queries can declare the same mode (e.g., `.dark` and `prefers-color-scheme: dark`)
+      const conditions = this.modeConditions.get(mode) ?? [];
+      const condition = declaration.selectors.join(' ');
+      if (!conditions.includes(condition)) {
+        this.modeConditions.set(mode, [...conditions, condition]);
+      }
+    }
+  }
+  
+  /**
+   * Get the mode a declaration applies to from its enclosing selectors
+   * Recognizes `prefers-color-scheme` media queries, `data-theme`/`data-mode`
+   * attributes and `.dark`/`.light` classes.
+   * @param selectors Enclosing selectors and at-rules, outermost first
+   * @returns Mode name (e.g., "dark"), or undefined for base declarations
+   */
+  private getModeFromSelectors(selectors: string[]): string | undefined {
+    const modePatterns = [
+      /prefers-color-scheme\s*:\s*([\w-]+)/,
+      /\[data-(?:theme|mode|color-scheme)\s*[~|]?=\s*["']?([\w-]+)["']?\s*\]/,
+      /\.(dark|light)(?![\w-])/
+    ];
     
-    while ((match = variableRegex.exec(cssContent)) !== null) {
-      const name = match[1].trim();
-      const value = match[2].trim();
-      this.cssVars.set(`--${name}`, value);
+    // The innermost selector decides (e.g., `[data-theme="dim"]` inside a media query)
+    for (const selector of [...selectors].reverse()) {
+      for (const pattern of modePatterns) {
+        const match = pattern.exec(selector);
+        if (match) {
+          return match[1];
+        }
+      }
     }
+    
+    return undefined;
   }
   
   /**
    * Create typed token objects from CSS variables
+   * Variables defined as `var()` references are resolved to their final value
+   * and remember the variable they alias. Values that differ per mode are
+   * stored on the token's `modes`.
    */
   private createTokens(): void {
-    for (const [cssVariable, value] of this.cssVars.entries()) {
-      // Skip variable references (var(--...)) for now
-      if (value.startsWith('var(')) {
+    const modes = [...this.modeVars.keys()];
+    const variables = new Set([
+      ...this.cssVars.keys(),
+      ...[...this.modeVars.values()].flatMap(modeVariables => [...modeVariables.keys()])
+    ]);
+    
+    for (const cssVariable of variables) {
+      // Variables declared only under a mode take their base value from the first such mode
+      const baseMode = this.cssVars.has(cssVariable)
+        ? undefined
+        : modes.find(mode => this.modeVars.get(mode)?.has(cssVariable));
+      let resolved: ResolvedVariable;
+      
+      try {
+        resolved = this.resolveVariable(cssVariable, baseMode);
+      } catch (error) {
+        console.warn(`Failed to resolve token ${cssVariable}: ${(error as Error).message}`);
         continue;
       }
       
+      const { value, aliasChain } = resolved;
       const name = this.getNameFromCssVariable(cssVariable);
+      const modeValues = this.resolveModeValues(cssVariable, value, baseMode);
+      // Aliases such as `--gap: var(--spacing-md)` take the category of the variables they point to
+      const chain = [cssVariable, ...aliasChain];
+      let token: DesignToken | undefined;
       
       // Categorize and create appropriate token object
       if (this.isColorValue(value)) {
-        this.createColorToken(name, cssVariable, value);
-      } else if (cssVariable.includes('spacing')) {
-        this.createSpacingToken(name, cssVariable, value);
-      } else if (cssVariable.includes('border-radius')) {
-        this.createBorderRadiusToken(name, cssVariable, value);
-      } else if (cssVariable.includes('shadow')) {
-        this.createShadowToken(name, cssVariable, value);
-      } else if (this.isTypographyProperty(cssVariable)) {
-        this.createOrUpdateTypographyToken(name, cssVariable, value);
+        token = this.createColorToken(name, cssVariable, value);
+      } else if (chain.some(variable => variable.includes('spacing'))) {
+        token = this.createSpacingToken(name, cssVariable, value);
+      } else if (chain.some(variable => variable.includes('border-radius') || variable.startsWith('--radius-'))) {
+        token = this.createBorderRadiusToken(name, cssVariable, value);
+      } else if (chain.some(variable => variable.includes('shadow'))) {
+        token = this.createShadowToken(name, cssVariable, value);
+      } else if (chain.some(variable => this.isTypographyProperty(variable))) {
+        // Aliases such as `--text-h1: var(--header-1-font-size)` take the property from their target
+        const propertyVariable = chain.find(variable => this.getTypographyProperty(variable));
+        const typographyToken = this.createOrUpdateTypographyToken(name, propertyVariable ?? cssVariable, value);
+        
+        for (const [mode, modeValue] of modeValues) {
+          this.createOrUpdateTypographyToken(name, propertyVariable ?? cssVariable, modeValue, mode);
+        }
+        
+        if (this.themeVars.has(cssVariable)) {
+          this.addThemeKey(typographyToken);
+        }
       }
+      
+      if (token && this.themeVars.has(cssVariable)) {
+        this.addThemeKey(token);
+      }
+      
+      if (token && aliasChain.length > 0) {
+        token.aliasOf = aliasChain[0];
+        token.aliasChain = aliasChain;
+      }
+      
+      if (token) {
+        for (const [mode, modeValue] of modeValues) {
+          this.addModeValue(token, mode, modeValue);
+        }
+      }
+    }
+  }
+  
+  /**
+   * Resolve a CSS variable in every mode where its value differs from the base value
+   * @param cssVariable CSS variable name
+   * @param baseValue Resolved base value
+   * @param baseMode Mode the base value was taken from, if the variable has no base declaration
+   * @returns Map of mode to resolved value
+   */
+  private resolveModeValues(cssVariable: string, baseValue: string, baseMode?: string): Map<string, string> {
+    const modeValues = new Map<string, string>();
+    
+    for (const mode of this.modeVars.keys()) {
+      try {
+        const { value } = this.resolveVariable(cssVariable, mode);
+        if (value !== baseValue || mode === baseMode) {
+          modeValues.set(mode, value);
+        }
+      } catch (error) {
+        // The variable is not defined in this mode
+      }
+    }
+    
+    return modeValues;
+  }
+  
+  /**
+   * Store a mode value on a token
+   * @param token Token to update
+   * @param mode Mode name
+   * @param value Resolved value in that mode
+   */
+  private addModeValue(token: DesignToken, mode: string, value: string): void {
+    if (token.category === 'color') {
+      try {
+        token.modes = { ...token.modes, [mode]: this.toColorValue(value) };
+      } catch (error) {
+        console.warn(`Failed to parse ${mode} color for token ${token.cssVariable ?? token.name}: ${(error as Error).message}`);
+        return;
+      }
+    } else if (token.category !== 'typography') {
+      token.modes = { ...token.modes, [mode]: value };
+    }
+    
+    token.modeConditions = { ...token.modeConditions, [mode]: this.modeConditions.get(mode) ?? [mode] };
+  }
+  
+  /**
+   * Resolve a CSS variable to its final value
+   * @param cssVariable CSS variable name
+   * @param mode Mode whose declarations override the base values
+   * @param chain Variables being resolved, for cycle detection
+   * @returns Resolved value and the variables it aliases, nearest first
+   */
+  private resolveVariable(cssVariable: string, mode?: string, chain: string[] = []): ResolvedVariable {
+    if (chain.includes(cssVariable)) {
+      throw new Error(`Circular var() reference: ${[...chain, cssVariable].join(' -> ')}`);
+    }
+    
+    const value = this.getVariableValue(cssVariable, mode);
+    if (value === undefined) {
+      throw new Error(`Undefined variable ${cssVariable}`);
+    }
+    
+    const nextChain = [...chain, cssVariable];
+    const reference = parseVarFunction(value);
+    
+    // Plain values may still embed references (e.g., a shadow color)
+    if (!reference) {
+      return { value: this.resolveValue(value, mode, nextChain), aliasChain: [] };
+    }
+    
+    if (this.getVariableValue(reference.name, mode) !== undefined) {
+      const target = this.resolveVariable(reference.name, mode, nextChain);
+      return { value: target.value, aliasChain: [reference.name, ...target.aliasChain] };
     }
+    
+    if (reference.fallback !== undefined) {
+      return { value: this.resolveValue(reference.fallback, mode, nextChain), aliasChain: [reference.name] };
+    }
+    
+    throw new Error(`Undefined variable ${reference.name}`);
+  }
+  
+  /**
+   * Replace every `var()` reference in a value with its resolved value
+   * @param value CSS value
+   * @param mode Mode whose declarations override the base values
+   * @param chain Variables being resolved, for cycle detection
+   * @returns Value without variable references
+   */
+  private resolveValue(value: string, mode: string | undefined, chain: string[]): string {
+    let resolved = '';
+    let lastIndex = 0;
+    
+    for (const reference of findVarReferences(value)) {
+      let replacement: string;
+      
+      if (this.getVariableValue(reference.name, mode) !== undefined) {
+        replacement = this.resolveVariable(reference.name, mode, chain).value;
+      } else if (reference.fallback !== undefined) {
+        replacement = this.resolveValue(reference.fallback, mode, chain);
+      } else {
+        throw new Error(`Undefined variable ${reference.name}`);
+      }
+      
+      resolved += value.substring(lastIndex, reference.start) + replacement;
+      lastIndex = reference.end;
+    }
+    
+    return resolved + value.substring(lastIndex);
+  }
+  
+  /**
+   * Get the declared value of a CSS variable
+   * @param cssVariable CSS variable name
+   * @param mode Mode whose declarations override the base values
+   * @returns Declared value, or undefined if the variable is not declared
+   */
+  private getVariableValue(cssVariable: string, mode?: string): string | undefined {
+    return (mode && this.modeVars.get(mode)?.get(cssVariable)) ?? this.cssVars.get(cssVariable);
   }
   
   /**
@@ -127,7 +494,7 @@ export class TokenRegistry {
     let name = cssVariable.replace(/^--/, '');
     
     // Remove category prefixes
-    name = name.replace(/^(color-|font-|spacing-|border-radius-|shadow-)/, '');
+    name = name.replace(/^(color-|font-|spacing-|border-radius-|radius-|shadow-)/, '');
     
     return name;
   }
@@ -138,16 +505,7 @@ export class TokenRegistry {
    * @returns True if the value is likely a color
    */
   private isColorValue(value: string): boolean {
-    const colorFormats = [
-      /^#[0-9a-fA-F]{3,8}$/,         // Hex colors
-      /^rgb\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*\)$/,  // RGB
-      /^rgba\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*,\s*[\d.]+\s*\)$/,  // RGBA
-      /^hsl\(\s*\d+\s*,\s*\d+%\s*,\s*\d+%\s*\)$/,  // HSL
-      /^hsla\(\s*\d+\s*,\s*\d+%\s*,\s*\d+%\s*,\s*[\d.]+\s*\)$/,  // HSLA
-      /^oklch\(\s*[\d.]+%?\s+[\d.]+\s+[\d.]+\s*\)$/  // OKLCH
-    ];
-    
-    return colorFormats.some(regex => regex.test(value.trim()));
+    return isColorString(value);
   }
   
   /**
@@ -168,50 +526,74 @@ export class TokenRegistry {
     return typographyProps.some(prop => cssVariable.includes(prop));
   }
   
+  /**
+   * Give a token declared in an `@theme` block its Tailwind theme key
+   * Variables outside the category's namespace (e.g., `--brand` for a color) get no key.
+   * @param token Token created from the variable
+   */
+  private addThemeKey(token: DesignToken): void {
+    const { prefix, utility } = THEME_NAMESPACES[token.category];
+    
+    if (!token.cssVariable?.startsWith(prefix)) {
+      return;
+    }
+    
+    token.tailwindKey = token.cssVariable.slice(prefix.length);
+    token.tailwindClass = `${utility}-${token.tailwindKey}`;
+  }
+  
   /**
    * Create a color token from CSS variable
    * @param name Token name
-   * @param cssVariable CSS variable name
+   * @param cssVariable CSS variable name, if the token is exposed as one
    * @param value Color value
+   * @returns The created token, or undefined if the color could not be parsed
    */
-  private createColorToken(name: string, cssVariable: string, value: string): void {
+  private createColorToken(name: string, cssVariable: string | undefined, value: string): ColorToken | undefined {
     try {
-      // Parse the color value
-      const colorFormats = parseColor(value);
-      
       const token: ColorToken = {
         name,
         cssVariable,
         category: 'color',
         originalValue: value,
-        value: {
-          hex: colorFormats.hex,
-          rgb: colorFormats.rgb,
-          hsl: colorFormats.hsl,
-          oklch: colorFormats.oklch
-        }
+        value: this.toColorValue(value)
       };
       
-      // Add tailwind class if we can infer it
-      if (cssVariable.startsWith('--color-')) {
-        token.tailwindClass = `text-${name}`;
-      }
-      
       this.colorTokens.push(token);
+      return token;
     } catch (error) {
-      console.warn(`Failed to parse color token ${cssVariable}: ${(error as Error).message}`);
+      console.warn(`Failed to parse color token ${cssVariable ?? name}: ${(error as Error).message}`);
+      return undefined;
     }
   }
   
+  /**
+   * Parse a color into the formats stored on color tokens
+   * @param value Color value
+   * @returns Normalized color formats
+   */
+  private toColorValue(value: string): ColorToken['value'] {
+    const colorFormats = parseColor(value);
+    
+    return {
+      hex: colorFormats.hex,
+      rgb: colorFormats.rgb,
+      hsl: colorFormats.hsl,
+      oklch: colorFormats.oklch
+    };
+  }
+  
   /**
    * Create or update a typography token from CSS variable
    * @param name Token name
    * @param cssVariable CSS variable name
    * @param value Typography value
+   * @param mode Mode the value applies to, if it is not the base value
+   * @returns The created or updated token
    */
-  private createOrUpdateTypographyToken(name: string, cssVariable: string, value: string): void {
-    // Extract the base name without the property
-    const baseName = name.replace(/-font-(family|size|weight|style)$|-line-height$|-letter-spacing$/, '');
+  private createOrUpdateTypographyToken(name: string, cssVariable: string, value: string, mode?: string): TypographyToken {
+    // Extract the base name without the property (`--text-h1--line-height` style included)
+    const baseName = name.replace(/--?(font-(family|size|weight|style)|line-height|letter-spacing)$/, '');
     
     // Find existing token or create new one
     let token = this.typographyTokens.find(t => t.name === baseName);
@@ -223,30 +605,70 @@ export class TokenRegistry {
         category: 'typography',
         value: {}
       };
+      
       this.typographyTokens.push(token);
     }
     
+    let target = token.value;
+    if (mode) {
+      token.modes = token.modes ?? {};
+      target = token.modes[mode] = token.modes[mode] ?? {};
+      token.modeConditions = { ...token.modeConditions, [mode]: this.modeConditions.get(mode) ?? [mode] };
+    }
+    
     // Update the appropriate property
+    switch (this.getTypographyProperty(cssVariable)) {
+      case 'fontFamily':
+        target.fontFamily = value;
+        break;
+      case 'fontSize':
+        target.fontSize = value;
+        break;
+      case 'fontWeight':
+        target.fontWeight = isNaN(Number(value)) ? value : Number(value);
+        break;
+      case 'lineHeight':
+        target.lineHeight = isNaN(Number(value)) ? value : Number(value);
+        break;
+      case 'letterSpacing':
+        target.letterSpacing = value;
+        break;
+    }
+    
+    return token;
+  }
+  
+  /**
+   * Get the typography property a CSS variable defines
+   * @param cssVariable CSS variable name
+   * @returns Typography property, or undefined if the name does not include one
+   */
+  private getTypographyProperty(cssVariable: string): keyof TypographyToken['value'] | undefined {
     if (cssVariable.includes('font-family')) {
-      token.value.fontFamily = value;
+      return 'fontFamily';
     } else if (cssVariable.includes('font-size')) {
-      token.value.fontSize = value;
+      return 'fontSize';
     } else if (cssVariable.includes('font-weight')) {
-      token.value.fontWeight = isNaN(Number(value)) ? value : Number(value);
+      return 'fontWeight';
     } else if (cssVariable.includes('line-height')) {
-      token.value.lineHeight = isNaN(Number(value)) ? value : Number(value);
+      return 'lineHeight';
     } else if (cssVariable.includes('letter-spacing')) {
-      token.value.letterSpacing = value;
+      return 'letterSpacing';
+    } else if (cssVariable.startsWith('--text-')) {
+      // Tailwind v4 text styles declare their font size without a suffix
+      return 'fontSize';
     }
+    return undefined;
   }
   
   /**
    * Create a spacing token from CSS variable
    * @param name Token name
-   * @param cssVariable CSS variable name
+   * @param cssVariable CSS variable name, if the token is exposed as one
    * @param value Spacing value
+   * @returns The created token
    */
-  private createSpacingToken(name: string, cssVariable: string, value: string): void {
+  private createSpacingToken(name: string, cssVariable: string | undefined, value: string): SpacingToken {
     const token: SpacingToken = {
       name,
       cssVariable,
@@ -254,21 +676,18 @@ export class TokenRegistry {
       value
     };
     
-    // Add tailwind class if possible
-    if (cssVariable.startsWith('--spacing-')) {
-      token.tailwindClass = `p-${name}`;
-    }
-    
     this.spacingTokens.push(token);
+    return token;
   }
   
   /**
    * Create a border radius token from CSS variable
    * @param name Token name
-   * @param cssVariable CSS variable name
+   * @param cssVariable CSS variable name, if the token is exposed as one
    * @param value Border radius value
+   * @returns The created token
    */
-  private createBorderRadiusToken(name: string, cssVariable: string, value: string): void {
+  private createBorderRadiusToken(name: string, cssVariable: string | undefined, value: string): BorderRadiusToken {
     const token: BorderRadiusToken = {
       name,
       cssVariable,
@@ -276,21 +695,18 @@ export class TokenRegistry {
       value
     };
     
-    // Add tailwind class if possible
-    if (cssVariable.startsWith('--border-radius-')) {
-      token.tailwindClass = `rounded-${name}`;
-    }
-    
     this.borderRadiusTokens.push(token);
+    return token;
   }
   
   /**
    * Create a shadow token from CSS variable
    * @param name Token name
-   * @param cssVariable CSS variable name
+   * @param cssVariable CSS variable name, if the token is exposed as one
    * @param value Shadow value
+   * @returns The created token
    */
-  private createShadowToken(name: string, cssVariable: string, value: string): void {
+  private createShadowToken(name: string, cssVariable: string | undefined, value: string): ShadowToken {
     const token: ShadowToken = {
       name,
       cssVariable,
@@ -299,52 +715,13 @@ export class TokenRegistry {
     };
     
     // Try to parse shadow components
-    try {
-      token.components = this.parseShadowComponents(value);
-    } catch (error) {
-      // Skip component parsing if it fails
-    }
-    
-    // Add tailwind class if possible
-    if (cssVariable.startsWith('--shadow-')) {
-      token.tailwindClass = `shadow-${name}`;
+    const components = parseShadow(value);
+    if (components) {
+      token.components = components;
     }
     
     this.shadowTokens.push(token);
-  }
-  
-  /**
-   * Parse shadow components from box-shadow value
-   * @param shadowValue Box-shadow CSS value
-   * @returns Array of shadow component objects
-   */
-  private parseShadowComponents(shadowValue: string): Array<{
-    x: string;
-    y: string;
-    blur: string;
-    spread: string;
-    color: string;
-    inset?: boolean;
-  }> {
-    // Split multiple shadows (separated by commas)
-    const shadowParts = shadowValue.split(/,(?![^(]*\))/);
-    
-    return shadowParts.map(part => {
-      const components = part.trim().split(/\s+/);
-      const hasInset = components[0] === 'inset';
-      
-      // Adjust indices based on whether inset is present
-      let startIndex = hasInset ? 1 : 0;
-      
-      return {
-        inset: hasInset,
-        x: components[startIndex],
-        y: components[startIndex + 1],
-        blur: components[startIndex + 2] || '0',
-        spread: components[startIndex + 3] || '0',
-        color: components.slice(startIndex + 4).join(' ') || 'currentColor'
-      };
-    });
+    return token;
   }
   
   /**
@@ -383,9 +760,17 @@ export class TokenRegistry {
     ];
   }
   
+  /**
+   * Get the modes declared in the token sources
+   * @returns Mode names (e.g., ["dark"])
+   */
+  getModes(): string[] {
+    return [...this.modeVars.keys()];
+  }
+  
   /**
    * Find a token by name
-   * @param name Token name
+   * @param name Token name, CSS variable or any of its Tailwind classes (e.g., "border-primary")
    * @returns Token with the specified name, or undefined if not found
    */
   findTokenByName(name: string): DesignToken | undefined {
@@ -393,7 +778,8 @@ export class TokenRegistry {
       token.name === name || 
       token.cssVariable === name ||
       token.cssVariable === `--${name}` ||
-      token.tailwindClass === name
+      token.tailwindClass === name ||
+      Object.values(token.tailwindClasses ?? {}).includes(name)
     );
   }
   
@@ -424,20 +810,24 @@ export class TokenRegistry {
       // Default threshold
       const threshold = options.threshold ?? 0.85;
       
-      // Get all color tokens
-      const colorTokens = this.colorTokens;
+      // Get the color values of every token in the requested mode
+      const candidates = this.rankAliasesFirst(this.colorTokens).flatMap(token =>
+        this.getModeValues(token, options.mode).map(candidate => ({ token, ...candidate }))
+      );
+      
+      const targetAlpha = targetColor.rgb.a ?? 1;
       
-      // Find exact match first
-      const exactMatch = colorTokens.find(token => 
-        token.value.hex.toLowerCase() === targetColor.hex.toLowerCase()
+      // Find exact match first, preferring a token with the same alpha over
+      // an opaque token that needs an opacity modifier
+      const sameRgb = candidates.filter(candidate => 
+        rgbToHex({ ...candidate.value.rgb, a: undefined }) === rgbToHex({ ...targetColor.rgb, a: undefined })
       );
+      const exactMatch =
+        sameRgb.find(candidate => isSameAlpha(candidate.value.rgb.a ?? 1, targetAlpha)) ??
+        sameRgb.find(candidate => (candidate.value.rgb.a ?? 1) === 1);
       
       if (exactMatch) {
-        return {
-          token: exactMatch,
-          confidence: 1,
-          originalValue: colorValue
-        };
+        return this.createColorMatch(exactMatch.token, exactMatch.value, 1, colorValue, targetAlpha, exactMatch.mode);
       }
       
       // If exact match is required but not found, return null
@@ -446,31 +836,33 @@ export class TokenRegistry {
       }
       
       // Calculate distances to find the closest match
-      let closestToken: ColorToken | null = null;
-      let smallestDistance = Infinity;
+      let closest: TokenMatch | null = null;
       
-      for (const token of colorTokens) {
+      for (const candidate of candidates) {
         const distance = calculateColorDistance(
           targetColor.rgb,
-          token.value.rgb
+          candidate.value.rgb,
+          options.colorMetric
         );
         
-        if (distance < smallestDistance) {
-          smallestDistance = distance;
-          closestToken = token;
+        // Convert distance to confidence (1 - normalized distance)
+        const match = this.createColorMatch(
+          candidate.token,
+          candidate.value,
+          1 - distance,
+          colorValue,
+          targetAlpha,
+          candidate.mode
+        );
+        
+        if (!closest || match.confidence > closest.confidence) {
+          closest = match;
         }
       }
       
-      // Convert distance to confidence (1 - normalized distance)
-      const confidence = 1 - smallestDistance;
-      
       // Return match if confidence meets threshold
-      if (closestToken && confidence >= threshold) {
-        return {
-          token: closestToken,
-          confidence,
-          originalValue: colorValue
-        };
+      if (closest && closest.confidence >= threshold) {
+        return closest;
       }
       
       return null;
@@ -506,40 +898,36 @@ export class TokenRegistry {
       }
     }
     
-    // If category is spacing or unspecified, try exact spacing matching
+    // Shorthands such as `margin: 8px 16px` match each component on its own
+    if (category === 'spacing' || category === 'borderRadius') {
+      const tokens = category === 'spacing' ? this.spacingTokens : this.borderRadiusTokens;
+      const shorthandMatch = this.findShorthandMatch(tokens, value, options);
+      if (shorthandMatch) {
+        return shorthandMatch;
+      }
+    }
+    
+    // If category is spacing or unspecified, try spacing matching
     if (!category || category === 'spacing') {
-      const spacingMatch = this.spacingTokens.find(token => token.value === value);
+      const spacingMatch = this.findLengthMatch(this.spacingTokens, value, options);
       if (spacingMatch) {
-        return {
-          token: spacingMatch,
-          confidence: 1,
-          originalValue: value
-        };
+        return spacingMatch;
       }
     }
     
-    // If category is borderRadius or unspecified, try exact border radius matching
+    // If category is borderRadius or unspecified, try border radius matching
     if (!category || category === 'borderRadius') {
-      const radiusMatch = this.borderRadiusTokens.find(token => token.value === value);
+      const radiusMatch = this.findLengthMatch(this.borderRadiusTokens, value, options);
       if (radiusMatch) {
-        return {
-          token: radiusMatch,
-          confidence: 1,
-          originalValue: value
-        };
+        return radiusMatch;
       }
     }
     
     // If category is shadow or unspecified, try shadow matching
     if (!category || category === 'shadow') {
-      // Exact shadow matching (shadows are complex, so only doing exact for now)
-      const shadowMatch = this.shadowTokens.find(token => token.value === value);
+      const shadowMatch = this.findShadowMatch(value, options);
       if (shadowMatch) {
-        return {
-          token: shadowMatch,
-          confidence: 1,
-          originalValue: value
-        };
+        return shadowMatch;
       }
     }
     
@@ -547,6 +935,307 @@ export class TokenRegistry {
     return null;
   }
   
+  /**
+   * Find the text style closest to a group of typography values
+   * Values that are usually declared together (font size, line height, weight,
+   * letter spacing and family) are compared as a whole, so a partial match
+   * scores lower than one that covers every property.
+   * @param values Typography values (e.g., from one style object or class list)
+   * @param options Matching options
+   * @returns Closest typography token match, or null if none meets the threshold
+   */
+  findTypographyMatch(values: TypographyToken['value'], options: TokenMatchOptions = {}): TokenMatch | null {
+    if (!this.initialized) {
+      throw new Error('TokenRegistry not initialized. Call initialize() first.');
+    }
+    
+    const threshold = options.threshold ?? 0.85;
+    const originalValue = Object.entries(values)
+      .map(([property, value]) => `${property}: ${value}`)
+      .join('; ');
+    let closest: TokenMatch | null = null;
+    
+    for (const token of this.typographyTokens) {
+      for (const candidate of this.getModeValues(token, options.mode)) {
+        // Mode overrides only hold the properties that change in that mode
+        const confidence = compareTypography(values, { ...token.value, ...candidate.value }, options);
+        
+        if ((options.exact && confidence < 1) || (closest && confidence <= closest.confidence)) {
+          continue;
+        }
+        
+        closest = this.createMatch(token, confidence, originalValue, candidate.mode);
+      }
+    }
+    
+    if (closest && closest.confidence >= threshold) {
+      return closest;
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Create a color match, accounting for the alpha of the matched color
+   * Opaque tokens match translucent colors with an opacity modifier (`alpha`);
+   * translucent tokens lose confidence by the alpha difference instead.
+   * @param token Matched token
+   * @param tokenValue Token color in the matched mode
+   * @param confidence Confidence of the RGB match
+   * @param colorValue Color value that was matched
+   * @param targetAlpha Alpha of the matched color
+   * @param mode Mode whose value matched
+   * @returns Token match
+   */
+  private createColorMatch(
+    token: ColorToken,
+    tokenValue: ColorToken['value'],
+    confidence: number,
+    colorValue: string,
+    targetAlpha: number,
+    mode?: string
+  ): TokenMatch {
+    const tokenAlpha = tokenValue.rgb.a ?? 1;
+    
+    if (isSameAlpha(tokenAlpha, targetAlpha)) {
+      return this.createMatch(token, confidence, colorValue, mode);
+    }
+    
+    if (tokenAlpha === 1) {
+      const match = this.createMatch(token, confidence, colorValue, mode);
+      match.alpha = Math.round(targetAlpha * 100) / 100;
+      return match;
+    }
+    
+    return this.createMatch(token, confidence * (1 - Math.abs(tokenAlpha - targetAlpha)), colorValue, mode);
+  }
+  
+  /**
+   * Find the token closest to a length, comparing px, rem and em values in pixels
+   * Confidence drops with the relative difference between the lengths; tokens
+   * further away than the tolerance are not considered.
+   * @param tokens Tokens to search
+   * @param value Length to match (e.g., "15px")
+   * @param options Matching options
+   * @returns Closest token match, or null if none is within tolerance and threshold
+   */
+  private findLengthMatch(
+    tokens: Array<SpacingToken | BorderRadiusToken>,
+    value: string,
+    options: TokenMatchOptions
+  ): TokenMatch | null {
+    const exactMatch = this.findExactValueMatch(tokens, value, options.mode);
+    if (exactMatch) {
+      return exactMatch;
+    }
+    
+    const targetPixels = toPixels(value, options.rootFontSize);
+    if (targetPixels === null) {
+      return null;
+    }
+    
+    const threshold = options.threshold ?? 0.85;
+    const tolerance = options.exact ? 0 : options.tolerance ?? 0.1;
+    let closest: TokenMatch | null = null;
+    
+    for (const token of this.rankAliasesFirst(tokens)) {
+      for (const candidate of this.getModeValues(token, options.mode)) {
+        const tokenPixels = toPixels(candidate.value, options.rootFontSize);
+        if (tokenPixels === null) {
+          continue;
+        }
+        
+        const difference = tokenPixels - targetPixels;
+        const largest = Math.max(Math.abs(tokenPixels), Math.abs(targetPixels));
+        const relativeDifference = largest === 0 ? 0 : Math.abs(difference) / largest;
+        
+        if (relativeDifference > tolerance || (closest && 1 - relativeDifference <= closest.confidence)) {
+          continue;
+        }
+        
+        closest = this.createMatch(token, 1 - relativeDifference, value, candidate.mode);
+        if (difference !== 0) {
+          closest.rounding = difference > 0 ? 'up' : 'down';
+        }
+      }
+    }
+    
+    if (closest && closest.confidence >= threshold) {
+      return closest;
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Match each component of a shorthand value (e.g., `8px 16px` or `4px 8px / 2px`)
+   * Keywords, zero and the border-radius slash keep their value. Confidence is
+   * the lowest component confidence, reduced by the share of lengths without a token.
+   * @param tokens Tokens to search
+   * @param value Shorthand value; Tailwind arbitrary values separate parts with `_`
+   * @param options Matching options
+   * @returns Match with per-component matches, or null if the value is not a shorthand or nothing matched
+   */
+  private findShorthandMatch(
+    tokens: Array<SpacingToken | BorderRadiusToken>,
+    value: string,
+    options: TokenMatchOptions
+  ): TokenMatch | null {
+    const parts = splitTopLevel(value.replace(/_/g, ' '), 'space');
+    
+    if (parts.length < 2) {
+      return null;
+    }
+    
+    // Match components below the threshold too, so the combined score can apply it
+    const components = parts.map(part => {
+      const pixels = toPixels(part, options.rootFontSize);
+      const match = pixels ? this.findLengthMatch(tokens, part, { ...options, threshold: 0 }) : null;
+      return { value: part, pixels, match };
+    });
+    
+    const lengthCount = components.filter(component => component.pixels).length;
+    const matched = components.filter(component => component.match);
+    
+    if (matched.length === 0) {
+      return null;
+    }
+    
+    const confidence = Math.min(...matched.map(component => component.match!.confidence)) * matched.length / lengthCount;
+    
+    if (confidence < (options.threshold ?? 0.85)) {
+      return null;
+    }
+    
+    const match = this.createMatch(matched[0].match!.token, confidence, value);
+    match.components = components.map(({ value: part, match: componentMatch }) => ({ value: part, match: componentMatch }));
+    
+    return match;
+  }
+  
+  /**
+   * Find the shadow token closest to a box-shadow value
+   * Shadows are compared layer by layer on their offsets, blur, spread, inset
+   * flag and color, so formatting differences do not prevent a match.
+   * @param value Box-shadow value to match
+   * @param options Matching options
+   * @returns Closest shadow token match, or null if none meets the threshold
+   */
+  private findShadowMatch(value: string, options: TokenMatchOptions): TokenMatch | null {
+    const exactMatch = this.findExactValueMatch(this.shadowTokens, value, options.mode);
+    if (exactMatch) {
+      return exactMatch;
+    }
+    
+    // Tailwind arbitrary values separate parts with `_` (e.g., `0_2px_4px_rgba(0,0,0,.1)`)
+    const targetLayers = parseShadow(value.replace(/_/g, ' '));
+    if (!targetLayers) {
+      return null;
+    }
+    
+    const threshold = options.threshold ?? 0.85;
+    let closest: TokenMatch | null = null;
+    
+    for (const token of this.rankAliasesFirst(this.shadowTokens)) {
+      for (const candidate of this.getModeValues(token, options.mode)) {
+        // Base values are parsed when the token is created
+        const layers = candidate.value === token.value ? token.components : parseShadow(candidate.value);
+        if (!layers) {
+          continue;
+        }
+        
+        const confidence = compareShadows(targetLayers, layers, options);
+        
+        if ((options.exact && confidence < 1) || (closest && confidence <= closest.confidence)) {
+          continue;
+        }
+        
+        closest = this.createMatch(token, confidence, value, candidate.mode);
+      }
+    }
+    
+    if (closest && closest.confidence >= threshold) {
+      return closest;
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Find a token whose string value equals the given value
+   * @param tokens Tokens to search
+   * @param value Value to match
+   * @param mode Mode to match against, or "all"
+   * @returns Exact token match, or null if none is found
+   */
+  private findExactValueMatch(
+    tokens: Array<SpacingToken | BorderRadiusToken | ShadowToken>,
+    value: string,
+    mode?: string
+  ): TokenMatch | null {
+    for (const token of this.rankAliasesFirst(tokens)) {
+      const candidate = this.getModeValues(token, mode).find(modeValue => modeValue.value === value);
+      if (candidate) {
+        return this.createMatch(token, 1, value, candidate.mode);
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Order tokens so aliases come before the primitives they point to
+   * Matching keeps the first of several equally close tokens, so a semantic alias
+   * (e.g., `--color-button-bg: var(--color-blue-500)`) wins over its primitive.
+   * @param tokens Tokens in declaration order
+   * @returns Aliases followed by the other tokens, each in declaration order
+   */
+  private rankAliasesFirst<T extends DesignToken>(tokens: T[]): T[] {
+    return [...tokens.filter(token => token.aliasOf), ...tokens.filter(token => !token.aliasOf)];
+  }
+  
+  /**
+   * Get the values of a token to match against
+   * @param token Design token
+   * @param mode Mode name, "all" for the base value and every mode, or undefined for the base value
+   * @returns Candidate values with the mode they belong to
+   */
+  private getModeValues<T extends DesignToken>(token: T, mode?: string): Array<{ value: T['value']; mode?: string }> {
+    const modes = (token.modes ?? {}) as Record<string, T['value']>;
+    
+    if (mode === 'all') {
+      return [
+        { value: token.value },
+        ...Object.entries(modes).map(([modeName, value]) => ({ value, mode: modeName }))
+      ];
+    }
+    
+    if (mode) {
+      // Tokens without an override use their base value in every mode
+      return [{ value: modes[mode] ?? token.value, mode }];
+    }
+    
+    return [{ value: token.value }];
+  }
+  
+  /**
+   * Create a token match result
+   * @param token Matched token
+   * @param confidence Confidence score
+   * @param originalValue Value that was matched
+   * @param mode Mode whose value matched
+   * @returns Token match
+   */
+  private createMatch(token: DesignToken, confidence: number, originalValue: string, mode?: string): TokenMatch {
+    const match: TokenMatch = { token, confidence, originalValue };
+    
+    if (mode) {
+      match.mode = mode;
+    }
+    
+    return match;
+  }
+  
   /**
    * Export all tokens to a JSON file
    * @param filePath Path to export JSON
@@ -0,0 +1,129 @@
+/**
+ * Component analyzer that runs pattern matchers over source code
+ */
+
+import {
+  MatchResult,
+  MatcherOptions,
+  PatternMatcher,
+  JsxStyleMatcher,
+  StyledComponentMatcher,
+  StylesheetMatcher,
+  TailwindClassMatcher,
+  compareMatches,
+  isStylesheetFile
+} from '../matchers/index.js';
+import { TYPOGRAPHY_PROPERTIES, TypographyProperty } from '../utils/typographyUtils.js';
+import type { TokenRegistry } from './TokenRegistry.js';
+import { TypographyToken } from './types.js';
+
+/**
+ * Options for analyzing a component
+ */
+export interface AnalyzeOptions extends MatcherOptions {
+  /** Matchers to run (defaults to all built-in matchers) */
+  matchers?: PatternMatcher[];
+}
+
+/**
+ * Typography values declared together in one style object or class list
+ */
+export interface TypographyGroup {
+  /** Matches for the grouped values, in source order */
+  matches: MatchResult[];
+
+  /** Typography values keyed by property */
+  values: TypographyToken['value'];
+}
+
+/**
+ * Create the built-in pattern matchers
+ * @returns Array of matcher instances
+ */
+export function getDefaultMatchers(): PatternMatcher[] {
+  return [
+    new JsxStyleMatcher(),
+    new TailwindClassMatcher(),
+    new StyledComponentMatcher()
+  ];
+}
+
+/**
+ * Create the pattern matchers suited to a file
+ * @param filePath Path of the file being analyzed
+ * @returns Stylesheet matcher for CSS files, component matchers otherwise
+ */
+export function getMatchersForFile(filePath: string): PatternMatcher[] {
+  return isStylesheetFile(filePath) ? [new StylesheetMatcher()] : getDefaultMatchers();
+}
+
+/**
+ * Analyze a component and collect all hardcoded style values
+ * @param source Source code of the component
+ * @param options Analysis options
+ * @returns Match results from all matchers, ordered by position in the source, then values from imported modules
+ */
+export function analyzeComponent(source: string, options: AnalyzeOptions = {}): MatchResult[] {
+  const { matchers = getDefaultMatchers(), ...matcherOptions } = options;
+  const results: MatchResult[] = [];
+  
+  for (const matcher of matchers) {
+    results.push(...matcher.match(source, matcherOptions));
+  }
+  
+  return results.sort(compareMatches);
+}
+
+/**
+ * Group sibling typography matches so they can be matched against text styles
+ * Only groups with at least two different typography properties are returned.
+ * Groups where a property has more than one possible value (e.g., both branches
+ * of a conditional) are skipped.
+ * @param matches Match results for a source file
+ * @returns Typography groups, in source order
+ */
+export function groupTypographyMatches(matches: MatchResult[]): TypographyGroup[] {
+  const groups = new Map<string, TypographyGroup>();
+  const ambiguous = new Set<string>();
+
+  for (const match of matches) {
+    const property = match.property as TypographyProperty;
+
+    if (match.type !== 'typography' || !match.group || !TYPOGRAPHY_PROPERTIES.includes(property)) {
+      continue;
+    }
+
+    const key = `${match.scope}:${match.group}`;
+    const group = groups.get(key) ?? { matches: [], values: {} };
+    groups.set(key, group);
+
+    if (group.values[property] !== undefined) {
+      ambiguous.add(key);
+    }
+
+    group.values[property] = match.value;
+    group.matches.push(match);
+  }
+
+  return [...groups.entries()]
+    .filter(([key, group]) => !ambiguous.has(key) && Object.keys(group.values).length > 1)
+    .map(([, group]) => ({
+      ...group,
+      matches: group.matches.sort((a, b) => a.location.start - b.location.start)
+    }));
+}
+
+/**
+ * Drop default theme classes that the token source defines
+ * A project whose theme keeps Tailwind's default palette or spacing uses
+ * those classes as tokens, so they are not hardcoded values.
+ * @param matches Match results for a source file
+ * @param registry Initialized token registry
+ * @returns Matches without default theme classes that name a token
+ */
+export function excludeTokenClasses(matches: MatchResult[], registry: TokenRegistry): MatchResult[] {
+  return matches.filter(match => {
+    const themeKey = match.scope === 'className' ? match.metadata?.themeKey : undefined;
+    return themeKey === undefined || !registry.findTokenByName(`${match.metadata!.utility}${themeKey}`);
+  });
+}
@@ -0,0 +1,429 @@
+/**
+ * Loader for W3C Design Tokens Community Group (DTCG) token files
+ */
+
+import { TokenCategory, TokenDefinition, TypographyToken } from './types.js';
+
+/**
+ * A token node in a DTCG document
+ */
+interface DtcgToken {
+  $value: unknown;
+  $type?: string;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+}
+
+/**
+ * A token collected from the document, before alias resolution
+ */
+interface CollectedToken {
+  path: string[];
+  type?: string;
+  value: unknown;
+  description?: string;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * What a dimension token sizes
+ */
+type DimensionKind = 'spacing' | 'borderRadius' | 'fontSize' | 'letterSpacing' | 'lineHeight';
+
+/**
+ * Words in a token path or type that identify what a dimension sizes, in order of precedence
+ * (`letter-spacing` is typography even though it mentions spacing). Dimensions matching
+ * none of them, such as border widths, are skipped.
+ */
+const DIMENSION_KINDS: Array<[RegExp, DimensionKind]> = [
+  [/(^|-)(font|text)-sizes?(-|$)/, 'fontSize'],
+  [/(^|-)(letter-spacing|tracking)(-|$)/, 'letterSpacing'],
+  [/(^|-)(line-heights?|leading)(-|$)/, 'lineHeight'],
+  [/(^|-)(radius|radii|rounded|corners?)(-|$)/, 'borderRadius'],
+  [/(^|-)(spacing|space|gaps?|padding|margins?|inset)(-|$)/, 'spacing']
+];
+
+/**
+ * Parse a DTCG token document into token definitions
+ * Groups are flattened into CSS variable names (`color.brand.primary` becomes
+ * `--color-brand-primary`), `$type` is inherited from parent groups and
+ * `{alias}` references are resolved. Tokens with unknown or circular aliases
+ * are skipped with a warning.
+ * @param document DTCG document as JSON text or a parsed object
+ * @returns Token definitions for the supported token types
+ */
+export function parseDtcgTokens(document: string | Record<string, unknown>): TokenDefinition[] {
+  let root: unknown = document;
+
+  if (typeof document === 'string') {
+    try {
+      root = JSON.parse(document);
+    } catch (error) {
+      throw new Error(`Failed to parse DTCG tokens: ${(error as Error).message}`);
+    }
+  }
+
+  if (!isObject(root)) {
+    throw new Error('Failed to parse DTCG tokens: document must be a JSON object');
+  }
+
+  const tokens = new Map<string, CollectedToken>();
+  collectTokens(root, [], undefined, tokens);
+
+  const definitions: TokenDefinition[] = [];
+
+  for (const token of tokens.values()) {
+    let resolved: unknown;
+
+    // Aliases into sets that were not loaded should not lose the other tokens
+    try {
+      resolved = resolveAliases(token.value, tokens, [token.path.join('.')]);
+    } catch (error) {
+      console.warn(`Failed to resolve DTCG token ${token.path.join('.')}: ${(error as Error).message}`);
+      continue;
+    }
+
+    const type = token.type ?? getAliasType(token.value, tokens);
+    const definition = createDefinition(token.path, type, resolved, token.extensions);
+
+    if (definition) {
+      if (token.description) {
+        definition.description = token.description;
+      }
+      definitions.push(definition);
+    }
+  }
+
+  return definitions;
+}
+
+/**
+ * Collect tokens from a group, tracking the inherited `$type`
+ * @param group Group object
+ * @param path Path to the group
+ * @param inheritedType `$type` inherited from parent groups
+ * @param tokens Map of dotted path to collected token
+ */
+function collectTokens(
+  group: Record<string, unknown>,
+  path: string[],
+  inheritedType: string | undefined,
+  tokens: Map<string, CollectedToken>
+): void {
+  const groupType = typeof group.$type === 'string' ? group.$type : inheritedType;
+
+  for (const [key, node] of Object.entries(group)) {
+    if (key.startsWith('$') || !isObject(node)) {
+      continue;
+    }
+
+    const nodePath = [...path, key];
+
+    if (isToken(node)) {
+      tokens.set(nodePath.join('.'), {
+        path: nodePath,
+        type: typeof node.$type === 'string' ? node.$type : groupType,
+        value: node.$value,
+        description: typeof node.$description === 'string' ? node.$description : undefined,
+        extensions: isObject(node.$extensions) ? node.$extensions : undefined
+      });
+    } else {
+      collectTokens(node, nodePath, groupType, tokens);
+    }
+  }
+}
+
+/**
+ * Resolve `{alias}` references in a token value
+ * @param value Token value (string, object or array)
+ * @param tokens Collected tokens
+ * @param chain Token paths being resolved, for cycle detection
+ * @returns Value with all aliases replaced
+ */
+function resolveAliases(value: unknown, tokens: Map<string, CollectedToken>, chain: string[]): unknown {
+  if (typeof value === 'string') {
+    const alias = parseAlias(value);
+    if (!alias) {
+      return value;
+    }
+
+    if (chain.includes(alias)) {
+      throw new Error(`Circular DTCG alias: ${[...chain, alias].join(' -> ')}`);
+    }
+
+    const target = tokens.get(alias);
+    if (!target) {
+      throw new Error(`Unknown DTCG alias {${alias}} in ${chain[chain.length - 1]}`);
+    }
+
+    return resolveAliases(target.value, tokens, [...chain, alias]);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => resolveAliases(item, tokens, chain));
+  }
+
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveAliases(item, tokens, chain)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Get the `$type` of the token an alias points to
+ * @param value Token value
+ * @param tokens Collected tokens
+ * @returns Type of the aliased token, if the value is an alias
+ */
+function getAliasType(value: unknown, tokens: Map<string, CollectedToken>): string | undefined {
+  const seen = new Set<string>();
+  let alias = typeof value === 'string' ? parseAlias(value) : null;
+
+  while (alias && !seen.has(alias)) {
+    seen.add(alias);
+    const target = tokens.get(alias);
+    if (!target) {
+      return undefined;
+    }
+    if (target.type) {
+      return target.type;
+    }
+    alias = typeof target.value === 'string' ? parseAlias(target.value) : null;
+  }
+
+  return undefined;
+}
+
+/**
+ * Create a token definition from a resolved DTCG token
+ * @param path Token path
+ * @param type DTCG `$type`
+ * @param value Resolved token value
+ * @param extensions `$extensions` of the token
+ * @returns Token definition, or null for unsupported types
+ */
+function createDefinition(
+  path: string[],
+  type: string | undefined,
+  value: unknown,
+  extensions?: Record<string, unknown>
+): TokenDefinition | null {
+  const cssVariable = `--${path.map(segment => segment.replace(/[\s.]+/g, '-')).join('-')}`;
+  const define = (category: TokenCategory, tokenValue: TokenDefinition['value']) => ({
+    cssVariable,
+    category,
+    value: tokenValue
+  });
+
+  switch (type) {
+    case 'color': {
+      const color = formatColor(value);
+      return color ? define('color', color) : null;
+    }
+
+    case 'dimension': {
+      const dimension = formatDimension(value);
+      const kind = getDimensionKind(path, extensions);
+      if (!dimension || !kind) {
+        return null;
+      }
+      return kind === 'spacing' || kind === 'borderRadius'
+        ? define(kind, dimension)
+        : define('typography', { [kind]: dimension });
+    }
+
+    case 'shadow': {
+      const shadow = formatShadow(value);
+      return shadow ? define('shadow', shadow) : null;
+    }
+
+    case 'typography':
+      return isObject(value) ? define('typography', formatTypography(value)) : null;
+
+    case 'fontFamily':
+      return define('typography', { fontFamily: formatFontFamily(value) });
+
+    case 'fontWeight':
+      return typeof value === 'number' || typeof value === 'string'
+        ? define('typography', { fontWeight: value })
+        : null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get what a dimension token sizes from its Tokens Studio type or its path
+ * @param path Token path (e.g., ["font", "size", "md"])
+ * @param extensions `$extensions` of the token
+ * @returns Dimension kind, or null if neither identifies one
+ */
+function getDimensionKind(path: string[], extensions?: Record<string, unknown>): DimensionKind | null {
+  const studio = extensions?.['studio.tokens'];
+  const names = [
+    ...(isObject(studio) && typeof studio.type === 'string' ? [studio.type] : []),
+    path.join('-')
+  ];
+
+  for (const name of names) {
+    // Compare names in kebab case, so `fontSizes`, `font_size` and `font.size` match `font-size`
+    const words = name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[\s._]+/g, '-').toLowerCase();
+    const kind = DIMENSION_KINDS.find(([pattern]) => pattern.test(words));
+
+    if (kind) {
+      return kind[1];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Format a DTCG color value as a CSS color
+ * @param value String color or color object with `hex` or sRGB `components`
+ */
+function formatColor(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (isObject(value)) {
+    if (typeof value.hex === 'string') {
+      return value.hex;
+    }
+
+    const components = value.components;
+    if ((value.colorSpace === 'srgb' || value.colorSpace === undefined) && Array.isArray(components)) {
+      const [r, g, b] = components.map(component => Math.round(Number(component) * 255));
+      const alpha = typeof value.alpha === 'number' ? value.alpha : 1;
+      return alpha < 1 ? `rgba(${r}, ${g}, ${b}, ${alpha})` : `rgb(${r}, ${g}, ${b})`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Format a DTCG dimension as a CSS length
+ * @param value String dimension (e.g., "16px") or `{ value, unit }` object
+ */
+function formatDimension(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (typeof value === 'number') {
+    return value === 0 ? '0' : `${value}px`;
+  }
+
+  if (isObject(value) && typeof value.value === 'number' && typeof value.unit === 'string') {
+    return `${value.value}${value.unit}`;
+  }
+
+  return null;
+}
+
+/**
+ * Format a DTCG shadow (single or layered) as a CSS box-shadow
+ * @param value Shadow object or array of shadow objects
+ */
+function formatShadow(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  const layers = Array.isArray(value) ? value : [value];
+  const formatted = layers.map(layer => {
+    if (!isObject(layer)) {
+      return null;
+    }
+
+    return [
+      layer.inset === true ? 'inset' : '',
+      formatDimension(layer.offsetX) ?? '0',
+      formatDimension(layer.offsetY) ?? '0',
+      formatDimension(layer.blur) ?? '0',
+      formatDimension(layer.spread) ?? '0',
+      formatColor(layer.color) ?? ''
+    ].filter(Boolean).join(' ');
+  });
+
+  return formatted.every(Boolean) ? formatted.join(', ') : null;
+}
+
+/**
+ * Format a DTCG typography composite
+ * @param value Typography object
+ */
+function formatTypography(value: Record<string, unknown>): TypographyToken['value'] {
+  const typography: TypographyToken['value'] = {};
+
+  if (value.fontFamily !== undefined) {
+    typography.fontFamily = formatFontFamily(value.fontFamily);
+  }
+
+  const fontSize = formatDimension(value.fontSize);
+  if (fontSize) {
+    typography.fontSize = fontSize;
+  }
+
+  if (typeof value.fontWeight === 'number' || typeof value.fontWeight === 'string') {
+    typography.fontWeight = value.fontWeight;
+  }
+
+  if (typeof value.lineHeight === 'number' || typeof value.lineHeight === 'string') {
+    typography.lineHeight = value.lineHeight;
+  } else {
+    const lineHeight = formatDimension(value.lineHeight);
+    if (lineHeight) {
+      typography.lineHeight = lineHeight;
+    }
+  }
+
+  const letterSpacing = formatDimension(value.letterSpacing);
+  if (letterSpacing) {
+    typography.letterSpacing = letterSpacing;
+  }
+
+  return typography;
+}
+
+/**
+ * Format a DTCG font family as a CSS font-family list
+ * @param value Font name or array of font names
+ */
+function formatFontFamily(value: unknown): string {
+  const families = Array.isArray(value) ? value : [value];
+  return families
+    .map(family => String(family))
+    .map(family => (/\s/.test(family) && !/^["']/.test(family) ? `"${family}"` : family))
+    .join(', ');
+}
+
+/**
+ * Extract the token path from an alias reference
+ * @param value String value (e.g., "{color.brand.primary}")
+ * @returns Dotted path, or null if the value is not an alias
+ */
+function parseAlias(value: string): string | null {
+  const match = /^\{([^{}]+)\}$/.exec(value.trim());
+  return match ? match[1] : null;
+}
+
+/**
+ * Check if a node is a token (has a `$value`)
+ */
+function isToken(node: Record<string, unknown>): node is Record<string, unknown> & DtcgToken {
+  return '$value' in node;
+}
+
+/**
+ * Check if a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -3,4 +3,8 @@
  */
 
 export * from './types.js';
-export * from './TokenRegistry.js';
\ No newline at end of file
+export * from './TokenRegistry.js';
+export * from './analyzer.js';
+export * from './dtcgLoader.js';
+export * from './tailwindLoader.js';
+export * from './moduleResolver.js';
@@ -0,0 +1,101 @@
+/**
+ * Resolver for relative module imports within a project
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Extensions tried for import specifiers, in order
+ */
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Resolves and reads the modules a source file imports from
+ * Only relative specifiers (`./styles`, `../theme/colors.js`) that resolve to
+ * files inside the project root are followed; packages are never read.
+ * Sources are read synchronously, since matchers run synchronously, and
+ * cached for the lifetime of the resolver.
+ */
+export class ModuleResolver {
+  private readonly rootDir: string;
+  private readonly sources = new Map<string, string | null>();
+
+  /**
+   * Create a module resolver
+   * @param rootDir Project root that imports may not leave
+   */
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Resolve an import specifier to a file
+   * Specifiers may omit the extension, point at a directory with an index
+   * file, or use a `.js` extension for a TypeScript source (as NodeNext does).
+   * @param specifier Import specifier (e.g., "./styles")
+   * @param fromFile File containing the import
+   * @returns Absolute path of the module, or null if it cannot be resolved
+   */
+  resolve(specifier: string, fromFile: string): string | null {
+    if (!specifier.startsWith('./') && !specifier.startsWith('../')) {
+      return null;
+    }
+
+    const base = path.resolve(path.dirname(path.resolve(fromFile)), specifier);
+
+    if (!this.isInsideRoot(base)) {
+      return null;
+    }
+
+    const extension = path.extname(base);
+    const withoutExtension = MODULE_EXTENSIONS.includes(extension) ? base.slice(0, -extension.length) : base;
+    const candidates = [
+      base,
+      ...MODULE_EXTENSIONS.map(moduleExtension => withoutExtension + moduleExtension),
+      ...MODULE_EXTENSIONS.map(moduleExtension => path.join(base, `index${moduleExtension}`))
+    ];
+
+    return candidates.find(candidate => this.isFile(candidate)) ?? null;
+  }
+
+  /**
+   * Read the source of a resolved module
+   * @param filePath Absolute path of the module
+   * @returns Source code, or null if the file cannot be read
+   */
+  readSource(filePath: string): string | null {
+    if (!this.sources.has(filePath)) {
+      try {
+        this.sources.set(filePath, fs.readFileSync(filePath, 'utf-8'));
+      } catch {
+        this.sources.set(filePath, null);
+      }
+    }
+
+    return this.sources.get(filePath)!;
+  }
+
+  /**
+   * Check whether a path is inside the project root
+   * @param filePath Absolute path
+   * @returns True if the path is the root or below it
+   */
+  private isInsideRoot(filePath: string): boolean {
+    const relative = path.relative(this.rootDir, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  /**
+   * Check whether a path is an existing file
+   * @param filePath Absolute path
+   * @returns True for files, false for directories and missing paths
+   */
+  private isFile(filePath: string): boolean {
+    try {
+      return fs.statSync(filePath).isFile();
+    } catch {
+      return false;
+    }
+  }
+}
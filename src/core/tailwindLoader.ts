@@ -0,0 +1,328 @@
+/**
+ * Loader for design tokens defined in a Tailwind CSS theme
+ */
+
+import { DesignToken, TailwindConfig, TokenCategory, TokenDefinition, TypographyToken } from './types.js';
+
+/**
+ * Theme sections read by the loader
+ */
+const THEME_SECTIONS = ['colors', 'spacing', 'borderRadius', 'boxShadow', 'fontSize', 'fontFamily'] as const;
+
+type ThemeSection = typeof THEME_SECTIONS[number];
+
+/**
+ * Utilities that take a theme key from each token category
+ * Typography tokens that only set a font family use `font` instead of `text`.
+ */
+const CATEGORY_UTILITIES: Record<TokenCategory, string[]> = {
+  color: [
+    'bg', 'text', 'border', 'border-x', 'border-y', 'border-t', 'border-r', 'border-b', 'border-l',
+    'outline', 'ring', 'ring-offset', 'divide', 'fill', 'stroke', 'decoration', 'placeholder',
+    'caret', 'accent', 'shadow', 'from', 'via', 'to'
+  ],
+  spacing: [
+    'p', 'px', 'py', 'pt', 'pr', 'pb', 'pl', 'ps', 'pe',
+    'm', 'mx', 'my', 'mt', 'mr', 'mb', 'ml', 'ms', 'me',
+    'gap', 'gap-x', 'gap-y', 'space-x', 'space-y',
+    'inset', 'inset-x', 'inset-y', 'top', 'right', 'bottom', 'left', 'start', 'end',
+    'w', 'h', 'size', 'min-w', 'min-h', 'max-w', 'max-h', 'translate-x', 'translate-y',
+    'scroll-m', 'scroll-p'
+  ],
+  borderRadius: [
+    'rounded', 'rounded-t', 'rounded-r', 'rounded-b', 'rounded-l', 'rounded-s', 'rounded-e',
+    'rounded-tl', 'rounded-tr', 'rounded-br', 'rounded-bl'
+  ],
+  shadow: ['shadow'],
+  typography: ['text']
+};
+
+/**
+ * Parse the theme of a static Tailwind config into token definitions
+ * `theme.extend` entries are merged over `theme` entries, palette by palette. Values that are
+ * functions or reference other variables are skipped. A config does not
+ * define CSS variables, so tokens get a `theme()` path instead of one.
+ * Font sizes and families only have classes, since `theme()` returns the
+ * whole fontSize tuple.
+ * @param config Tailwind config object
+ * @returns Token definitions with Tailwind classes for each utility
+ */
+export function parseTailwindTheme(config: TailwindConfig): TokenDefinition[] {
+  const definitions: TokenDefinition[] = [];
+
+  for (const section of THEME_SECTIONS) {
+    const entries = getThemeSection(config, section);
+
+    switch (section) {
+      case 'colors':
+        for (const [key, value, themeKeys] of flattenColors(entries)) {
+          definitions.push({
+            name: key,
+            themePath: toThemePath('colors', themeKeys),
+            category: 'color',
+            value,
+            tailwindClass: `text-${key}`,
+            tailwindKey: key
+          });
+        }
+        break;
+
+      case 'spacing':
+        for (const [key, value] of Object.entries(entries)) {
+          if (isStaticValue(value)) {
+            definitions.push({
+              name: key,
+              themePath: toThemePath('spacing', [key]),
+              category: 'spacing',
+              value,
+              tailwindClass: `p-${key}`,
+              tailwindKey: key
+            });
+          }
+        }
+        break;
+
+      case 'borderRadius':
+        for (const [key, value] of Object.entries(entries)) {
+          if (isStaticValue(value)) {
+            definitions.push({
+              name: key,
+              themePath: toThemePath('borderRadius', [key]),
+              category: 'borderRadius',
+              value,
+              tailwindClass: utilityClass('rounded', key),
+              tailwindKey: key
+            });
+          }
+        }
+        break;
+
+      case 'boxShadow':
+        for (const [key, value] of Object.entries(entries)) {
+          if (isStaticValue(value)) {
+            definitions.push({
+              name: key,
+              themePath: toThemePath('boxShadow', [key]),
+              category: 'shadow',
+              value,
+              tailwindClass: utilityClass('shadow', key),
+              tailwindKey: key
+            });
+          }
+        }
+        break;
+
+      case 'fontSize':
+        for (const [key, value] of Object.entries(entries)) {
+          const typography = parseFontSize(value);
+          if (typography) {
+            definitions.push({
+              name: `text-${key}`,
+              category: 'typography',
+              value: typography,
+              tailwindClass: `text-${key}`,
+              tailwindKey: key
+            });
+          }
+        }
+        break;
+
+      case 'fontFamily':
+        for (const [key, value] of Object.entries(entries)) {
+          const fontFamily = parseFontFamily(value);
+          if (fontFamily) {
+            definitions.push({
+              name: `font-${key}`,
+              category: 'typography',
+              value: { fontFamily },
+              tailwindClass: `font-${key}`,
+              tailwindKey: key
+            });
+          }
+        }
+        break;
+    }
+  }
+
+  return definitions;
+}
+
+/**
+ * Build the class each utility uses for a token's theme key
+ * @param token Token with a Tailwind theme key
+ * @returns Class names keyed by utility (e.g., `{ bg: 'bg-primary', text: 'text-primary', ... }`)
+ */
+export function getTailwindClasses(token: DesignToken): Record<string, string> {
+  if (token.tailwindKey === undefined) {
+    return {};
+  }
+
+  const fontFamilyOnly = token.category === 'typography' &&
+    Object.keys(token.value).every(property => property === 'fontFamily');
+  const utilities = fontFamilyOnly ? ['font'] : CATEGORY_UTILITIES[token.category];
+  const classes: Record<string, string> = {};
+
+  for (const utility of utilities) {
+    classes[utility] = utilityClass(utility, token.tailwindKey);
+  }
+
+  return classes;
+}
+
+/**
+ * Get a theme section with `theme.extend` merged over it
+ * @param config Tailwind config
+ * @param section Theme section name
+ * @returns Merged section entries
+ */
+function getThemeSection(config: TailwindConfig, section: ThemeSection): Record<string, unknown> {
+  const base = config.theme?.[section];
+  const extension = config.theme?.extend?.[section];
+
+  return mergeThemeValues(isObject(base) ? base : {}, isObject(extension) ? extension : {});
+}
+
+/**
+ * Merge theme entries the way Tailwind merges `theme.extend`
+ * Nested objects such as color palettes are merged key by key, so extending
+ * `gray` with a `950` shade keeps the other shades. Other values are replaced.
+ * @param base Base entries
+ * @param extension Entries to merge over them
+ * @returns Merged entries
+ */
+function mergeThemeValues(base: Record<string, unknown>, extension: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(extension)) {
+    const baseValue = merged[key];
+    merged[key] = isObject(baseValue) && isObject(value) ? mergeThemeValues(baseValue, value) : value;
+  }
+
+  return merged;
+}
+
+/**
+ * Flatten nested color palettes (e.g., `gray: { 100: ... }` becomes `gray-100`)
+ * @param colors Color section entries
+ * @param prefix Key prefix for nested palettes
+ * @param parentKeys Theme keys of the enclosing palettes
+ * @returns Color key, value and theme keys of each color (e.g., `['gray-100', '#f3f4f6', ['gray', '100']]`)
+ */
+function flattenColors(
+  colors: Record<string, unknown>,
+  prefix = '',
+  parentKeys: string[] = []
+): Array<[string, string, string[]]> {
+  const flattened: Array<[string, string, string[]]> = [];
+
+  for (const [key, value] of Object.entries(colors)) {
+    // DEFAULT maps to the palette name itself (e.g., `bg-gray`)
+    const colorKey = key === 'DEFAULT' ? prefix : prefix ? `${prefix}-${key}` : key;
+    const themeKeys = [...parentKeys, key];
+
+    if (isObject(value)) {
+      flattened.push(...flattenColors(value, colorKey, themeKeys));
+    } else if (isStaticValue(value) && colorKey && !/^(inherit|currentColor|transparent)$/.test(value)) {
+      flattened.push([colorKey, value, themeKeys]);
+    }
+  }
+
+  return flattened;
+}
+
+/**
+ * Parse a fontSize entry (`'1rem'`, `['1rem', '1.5rem']` or `['1rem', { lineHeight, ... }]`)
+ * @param value fontSize theme value
+ * @returns Typography value, or null if the entry is not static
+ */
+function parseFontSize(value: unknown): TypographyToken['value'] | null {
+  if (isStaticValue(value)) {
+    return { fontSize: value };
+  }
+
+  if (!Array.isArray(value) || !isStaticValue(value[0])) {
+    return null;
+  }
+
+  const [fontSize, options] = value;
+  const typography: TypographyToken['value'] = { fontSize };
+
+  if (typeof options === 'string') {
+    typography.lineHeight = options;
+  } else if (isObject(options)) {
+    if (typeof options.lineHeight === 'string' || typeof options.lineHeight === 'number') {
+      typography.lineHeight = options.lineHeight;
+    }
+    if (typeof options.letterSpacing === 'string') {
+      typography.letterSpacing = options.letterSpacing;
+    }
+    if (typeof options.fontWeight === 'string' || typeof options.fontWeight === 'number') {
+      typography.fontWeight = options.fontWeight;
+    }
+  }
+
+  return typography;
+}
+
+/**
+ * Parse a fontFamily entry (string, array of names, or `[names, options]`)
+ * @param value fontFamily theme value
+ * @returns CSS font-family list, or null if the entry is not static
+ */
+function parseFontFamily(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const families = Array.isArray(value[0]) ? value[0] : value;
+  const names = families.filter((family: unknown): family is string => typeof family === 'string');
+
+  if (names.length === 0) {
+    return null;
+  }
+
+  return names
+    .map(family => (/\s/.test(family) && !/^["']/.test(family) ? `"${family}"` : family))
+    .join(', ');
+}
+
+/**
+ * Build a utility class, where DEFAULT maps to the bare utility
+ * @param utility Utility name (e.g., "rounded")
+ * @param key Theme key
+ * @returns Class name (e.g., "rounded" or "rounded-lg")
+ */
+function utilityClass(utility: string, key: string): string {
+  return key === 'DEFAULT' ? utility : `${utility}-${key}`;
+}
+
+/**
+ * Build the path of a theme value for Tailwind's `theme()` function
+ * Keys containing dots use bracket notation, as `theme()` requires.
+ * @param section Theme section (e.g., "spacing")
+ * @param keys Keys within the section (e.g., ["0.5"])
+ * @returns Theme path (e.g., "spacing[0.5]" or "colors.gray.100")
+ */
+function toThemePath(section: string, keys: string[]): string {
+  return keys.reduce((themePath, key) => key.includes('.') ? `${themePath}[${key}]` : `${themePath}.${key}`, section);
+}
+
+/**
+ * Check if a theme value is a literal string that can be matched
+ * @param value Theme value
+ * @returns True for plain strings without variable references or placeholders
+ */
+function isStaticValue(value: unknown): value is string {
+  return typeof value === 'string' && !/var\(|<alpha-value>|theme\(/.test(value);
+}
+
+/**
+ * Check if a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
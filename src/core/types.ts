@@ -2,6 +2,9 @@
  * Core type definitions for the token transformer
  */
 
+import type { MatchResult } from '../matchers/types.js';
+import type { ColorDistanceMetric } from '../utils/colorUtils.js';
+
 /**
  * Supported token categories
  */
@@ -14,17 +17,35 @@ export interface BaseToken {
   /** Token identifier */
   name: string;
   
-  /** CSS variable reference (e.g., `--color-primary`) */
-  cssVariable: string;
+  /** CSS variable reference (e.g., `--color-primary`), if the token is exposed as one */
+  cssVariable?: string;
+  
+  /** Path of the token in a Tailwind config theme, for `theme()` in stylesheets (e.g., `colors.gray.100`) */
+  themePath?: string;
   
   /** Optional Tailwind class equivalent */
   tailwindClass?: string;
   
+  /** Theme key that follows the utility in Tailwind classes (e.g., `primary` in `bg-primary`, `DEFAULT` for `rounded`) */
+  tailwindKey?: string;
+  
+  /** Tailwind class for each utility that accepts the token (e.g., `{ bg: 'bg-primary', text: 'text-primary' }`) */
+  tailwindClasses?: Record<string, string>;
+  
   /** Optional description of the token's purpose */
   description?: string;
   
   /** Token category */
   category: TokenCategory;
+  
+  /** CSS variable this token aliases (e.g., `--color-blue-500` for a semantic token) */
+  aliasOf?: string;
+  
+  /** Alias chain from this token to the variable that defines the value */
+  aliasChain?: string[];
+  
+  /** Selectors or media conditions each mode was declared under (e.g., `[data-theme="dark"]`) */
+  modeConditions?: Record<string, string[]>;
 }
 
 /**
@@ -65,6 +86,9 @@ export interface ColorToken extends BaseToken {
       a?: number;
     };
   };
+  
+  /** Values for themes and color schemes that override the base value, keyed by mode */
+  modes?: Record<string, ColorToken['value']>;
 }
 
 /**
@@ -88,6 +112,9 @@ export interface TypographyToken extends BaseToken {
     /** Letter spacing (e.g., "0.5px", "normal") */
     letterSpacing?: string;
   };
+  
+  /** Values for themes and color schemes that override the base value, keyed by mode */
+  modes?: Record<string, TypographyToken['value']>;
 }
 
 /**
@@ -98,6 +125,9 @@ export interface SpacingToken extends BaseToken {
   
   /** Spacing value with unit (e.g., "1rem", "16px") */
   value: string;
+  
+  /** Values for themes and color schemes that override the base value, keyed by mode */
+  modes?: Record<string, string>;
 }
 
 /**
@@ -108,6 +138,9 @@ export interface BorderRadiusToken extends BaseToken {
   
   /** Border radius value with unit (e.g., "4px", "0.25rem") */
   value: string;
+  
+  /** Values for themes and color schemes that override the base value, keyed by mode */
+  modes?: Record<string, string>;
 }
 
 /**
@@ -119,15 +152,23 @@ export interface ShadowToken extends BaseToken {
   /** Shadow value as CSS box-shadow */
   value: string;
   
+  /** Values for themes and color schemes that override the base value, keyed by mode */
+  modes?: Record<string, string>;
+  
   /** Parsed shadow components (if available) */
-  components?: Array<{
-    x: string;
-    y: string;
-    blur: string;
-    spread: string;
-    color: string;
-    inset?: boolean;
-  }>;
+  components?: ShadowLayer[];
+}
+
+/**
+ * A single layer of a box-shadow value
+ */
+export interface ShadowLayer {
+  x: string;
+  y: string;
+  blur: string;
+  spread: string;
+  color: string;
+  inset?: boolean;
 }
 
 /**
@@ -152,6 +193,18 @@ export interface TokenMatch {
   
   /** The original value that was matched */
   originalValue: string;
+  
+  /** Mode whose value matched, when matching against modes */
+  mode?: string;
+  
+  /** Opacity (0-1) to apply to the token when the matched color's alpha differs from it */
+  alpha?: number;
+  
+  /** Whether the token is larger ("up") or smaller ("down") than a near-matched length */
+  rounding?: 'up' | 'down';
+  
+  /** Matches for each part of a shorthand value (e.g., `8px 16px`); parts without a match keep their value */
+  components?: Array<{ value: string; match: TokenMatch | null }>;
 }
 
 /**
@@ -166,6 +219,18 @@ export interface TokenMatchOptions {
   
   /** Whether to require exact matches only */
   exact?: boolean;
+  
+  /** Mode to match against (e.g., "dark"), or "all" to consider every mode. Defaults to base values. */
+  mode?: string;
+  
+  /** Color distance metric used for approximate color matches (defaults to "oklab") */
+  colorMetric?: ColorDistanceMetric;
+  
+  /** Root font size in pixels for comparing px, rem and em lengths (defaults to 16) */
+  rootFontSize?: number;
+  
+  /** Maximum relative difference (0-1) between a length and a near-matching token (defaults to 0.1) */
+  tolerance?: number;
 }
 
 /**
@@ -183,6 +248,47 @@ export interface TransformationResult {
   
   /** Confidence level of the transformation */
   confidence: number;
+  
+  /** The match that produced this transformation */
+  match?: MatchResult;
+}
+
+/**
+ * Token definition produced by a token source loader
+ */
+export interface TokenDefinition {
+  /** CSS variable the token is exposed as (e.g., `--color-primary`), if any */
+  cssVariable?: string;
+  
+  /** Path of the token in a Tailwind config theme (e.g., `colors.gray.100`) */
+  themePath?: string;
+  
+  /** Token category */
+  category: TokenCategory;
+  
+  /** Token value (typography tokens use their composite value) */
+  value: string | TypographyToken['value'];
+  
+  /** Optional description of the token's purpose */
+  description?: string;
+  
+  /** Token name (derived from the CSS variable when omitted) */
+  name?: string;
+  
+  /** Tailwind class (inferred from the CSS variable when omitted) */
+  tailwindClass?: string;
+  
+  /** Tailwind theme key (inferred from the CSS variable when omitted) */
+  tailwindKey?: string;
+}
+
+/**
+ * Static Tailwind CSS configuration (the parts used for tokens)
+ */
+export interface TailwindConfig {
+  theme?: Record<string, unknown> & {
+    extend?: Record<string, unknown>;
+  };
 }
 
 /**
@@ -195,6 +301,15 @@ export interface TokenRegistryOptions {
   /** Raw CSS content with token definitions */
   cssContent?: string;
   
+  /** Path to a W3C Design Tokens (DTCG) `.tokens.json` file */
+  dtcgPath?: string;
+  
+  /** DTCG token document, as JSON text or a parsed object */
+  dtcgContent?: string | Record<string, unknown>;
+  
+  /** Static Tailwind config object whose theme defines the tokens */
+  tailwindConfig?: TailwindConfig;
+  
   /** Whether to convert colors to multiple formats */
   normalizeColors?: boolean;
 }
\ No newline at end of file
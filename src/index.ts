@@ -1,27 +1,112 @@
 /**
  * Token Transformer
- * 
+ *
  * A tool that analyzes React components, identifies hardcoded style values,
  * and replaces them with references to design system tokens.
  */
 
-// Future imports from core modules
-// import { analyzeComponent } from './core/analyzer.js';
-// import { transformStyles } from './transformers/styleTransformer.js';
+import { analyzeComponent, excludeTokenClasses, getDefaultMatchers, getMatchersForFile } from './core/analyzer.js';
+import { ModuleResolver } from './core/moduleResolver.js';
+import { StylesheetMatcher } from './matchers/StylesheetMatcher.js';
+import { TokenRegistry } from './core/TokenRegistry.js';
+import { TokenCategory } from './core/types.js';
+import { AlphaFormat, StyleTransformOutput, transformStyles } from './transformers/styleTransformer.js';
+import { createUnifiedDiff } from './transformers/diff.js';
+import { ColorDistanceMetric } from './utils/colorUtils.js';
 
 /**
  * Main entry point for the token transformer
- * @param sourceCode - The source code of the React component to transform
+ * @param sourceCode - The source code of the React component or stylesheet to transform
  * @param options - Configuration options for the transformation
- * @returns The transformed source code with design token references
+ * @returns The transformed source code and the transformations that were applied
+ * (in dry-run mode, the unchanged source and a unified diff)
  */
 export async function transformComponent(
   sourceCode: string,
   options: TransformOptions = {}
-): Promise<string> {
-  // Placeholder for the main functionality
-  console.log('Transforming component with options:', options);
-  return sourceCode; // Return unchanged for now
+): Promise<TransformOutput> {
+  const registry = await resolveRegistry(options);
+
+  // Select matchers for the file type, limited to the requested names if any
+  let matchers = options.filePath ? getMatchersForFile(options.filePath) : getDefaultMatchers();
+  if (options.customMatchers) {
+    const names = resolveMatcherNames(options.customMatchers);
+    matchers = matchers.filter(matcher => names.includes(matcher.getName()));
+  }
+
+  const matches = excludeTokenClasses(analyzeComponent(sourceCode, {
+    matchers,
+    types: options.categories,
+    classFunctions: options.classFunctions,
+    defaultTheme: options.defaultTheme,
+    filePath: options.filePath,
+    moduleResolver: options.projectRoot ? new ModuleResolver(options.projectRoot) : undefined
+  }), registry);
+
+  const output = transformStyles(sourceCode, matches, registry, {
+    threshold: options.threshold,
+    categories: options.categories,
+    mode: options.mode,
+    colorMetric: options.colorMetric,
+    alphaFormat: options.alphaFormat,
+    rootFontSize: options.rootFontSize,
+    tolerance: options.tolerance
+  });
+
+  // In dry-run mode, describe the changes as a diff and keep the source as is
+  if (options.dryRun) {
+    return {
+      code: sourceCode,
+      transformations: output.transformations,
+      diff: createUnifiedDiff(options.filePath ?? 'component.tsx', sourceCode, output.transformations)
+    };
+  }
+
+  return output;
+}
+
+/**
+ * Matcher names kept working after their matcher was replaced
+ * (JsxStyleMatcher took over inline styles from InlineStyleMatcher)
+ */
+const MATCHER_ALIASES: Record<string, string> = {
+  InlineStyleMatcher: 'JsxStyleMatcher'
+};
+
+/**
+ * Resolve the matcher names requested by the caller
+ * @param names Matcher names, as returned by `getName()`
+ * @returns Names of the matchers to use
+ * @throws Error for names that match no matcher
+ */
+function resolveMatcherNames(names: string[]): string[] {
+  const known = [...getDefaultMatchers(), new StylesheetMatcher()].map(matcher => matcher.getName());
+  const resolved = names.map(name => MATCHER_ALIASES[name] ?? name);
+  const unknown = names.filter((name, index) => !known.includes(resolved[index]));
+
+  if (unknown.length > 0) {
+    throw new Error(`Unknown matcher: ${unknown.join(', ')}. Available matchers: ${known.join(', ')}.`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Get an initialized token registry for the transformation
+ * @param options Transformation options
+ * @returns Initialized token registry
+ */
+async function resolveRegistry(options: TransformOptions): Promise<TokenRegistry> {
+  if (options.registry) {
+    await options.registry.initialize();
+    return options.registry;
+  }
+
+  if (!options.tokenPath) {
+    throw new Error('No token source provided. Specify tokenPath or registry.');
+  }
+
+  return TokenRegistry.fromFile(options.tokenPath);
 }
 
 /**
@@ -29,20 +114,101 @@ export async function transformComponent(
  */
 export interface TransformOptions {
   /**
-   * Path to the design token definitions
+   * Path to the design token definitions: CSS, DTCG `.json` or a Tailwind config
    */
   tokenPath?: string;
-  
+
   /**
-   * Custom matchers to use for identifying style values
+   * Path of the file being transformed, used to pick matchers (e.g., stylesheets)
+   */
+  filePath?: string;
+
+  /**
+   * Pre-initialized token registry (takes precedence over tokenPath)
+   */
+  registry?: TokenRegistry;
+
+  /**
+   * Custom matchers to use for identifying style values, by matcher name
+   * (`InlineStyleMatcher` selects JsxStyleMatcher, which replaced it)
    */
   customMatchers?: string[];
-  
+
   /**
    * Whether to preserve comments in the transformed code
    */
   preserveComments?: boolean;
+
+  /**
+   * Return a unified diff of the changes instead of the transformed code
+   */
+  dryRun?: boolean;
+
+  /**
+   * Minimum confidence (0-1) required to apply a replacement
+   */
+  threshold?: number;
+
+  /**
+   * Limit transformation to specific token categories
+   */
+  categories?: TokenCategory[];
+
+  /**
+   * Token mode to match against (e.g., "dark"), or "all" for every mode
+   */
+  mode?: string;
+
+  /**
+   * Color distance metric for approximate color matches (defaults to "oklab")
+   */
+  colorMetric?: ColorDistanceMetric;
+
+  /**
+   * CSS syntax for token references that need an opacity (defaults to "color-mix")
+   */
+  alphaFormat?: AlphaFormat;
+
+  /**
+   * Root font size in pixels for comparing px, rem and em lengths (defaults to 16)
+   */
+  rootFontSize?: number;
+
+  /**
+   * Maximum relative difference (0-1) between a length and a near-matching token (defaults to 0.1)
+   */
+  tolerance?: number;
+
+  /**
+   * Class-composing helpers whose arguments hold Tailwind classes (defaults to clsx, cn, twMerge, cva and similar)
+   */
+  classFunctions?: string[];
+
+  /**
+   * Also replace classes from Tailwind's default palette and spacing scale (e.g., `bg-blue-500`, `p-3`)
+   */
+  defaultTheme?: boolean;
+
+  /**
+   * Project root for following style objects imported from sibling modules (requires filePath).
+   * Values defined in another module are reported but not replaced.
+   */
+  projectRoot?: string;
+}
+
+/**
+ * Result of transforming a component
+ */
+export interface TransformOutput extends StyleTransformOutput {
+  /**
+   * Unified diff of the changes (dry-run mode only)
+   */
+  diff?: string;
 }
 
 // Export additional types and utilities as the project grows
-export * from './core/index.js';
\ No newline at end of file
+export * from './core/index.js';
+export * from './matchers/index.js';
+export * from './transformers/index.js';
+export * from './reporters/index.js';
+export type { ColorDistanceMetric } from './utils/colorUtils.js';
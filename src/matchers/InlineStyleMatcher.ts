@@ -8,24 +8,15 @@ import {
   MatcherOptions,
   PatternMatcher,
   CSS_PROPERTY_CATEGORIES,
+  PROPERTY_TYPE_PATTERNS,
   createMatchLocation,
   getFullLine
 } from './types.js';
 
-/**
- * Style property regex patterns for different types
- */
-const PROPERTY_TYPE_PATTERNS: Record<MatchType, RegExp> = {
-  color: /#[0-9a-fA-F]{3,8}|rgba?\s*\([^)]+\)|hsla?\s*\([^)]+\)|oklch\s*\([^)]+\)/,
-  spacing: /-?\d*\.?\d+(px|rem|em|%|vh|vw)/,
-  borderRadius: /\d*\.?\d+(px|rem|em|%)/,
-  shadow: /\d+px\s+\d+px(\s+\d+px)?(\s+\d+px)?(\s+rgba?\([^)]+\)|#[0-9a-fA-F]{3,8})?/,
-  typography: /\d*\.?\d+(px|rem|em|%)|normal|bold|lighter|bolder|\d{3}|inherit|initial/
-};
-
 /**
  * Pattern matcher for inline styles in React components
  * Identifies style patterns like style={{ color: '#ff0000' }}
+ * @deprecated Regex-based; use JsxStyleMatcher, which parses the source
  */
 export class InlineStyleMatcher implements PatternMatcher {
   /**
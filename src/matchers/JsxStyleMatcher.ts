@@ -0,0 +1,666 @@
+/**
+ * AST-based matcher for JSX style props
+ */
+
+import path from 'path';
+import ts from 'typescript';
+import {
+  MatchResult,
+  MatchType,
+  MatcherOptions,
+  PatternMatcher,
+  CSS_PROPERTY_CATEGORIES,
+  PROPERTY_TYPE_PATTERNS,
+  compareMatches,
+  createMatchLocation,
+  getFullLine
+} from './types.js';
+import type { ModuleResolver } from '../core/moduleResolver.js';
+
+/**
+ * Maximum number of references followed when resolving a style object
+ */
+const MAX_RESOLVE_DEPTH = 10;
+
+/**
+ * A parsed module and the bindings style objects can be resolved through
+ */
+interface ModuleScope {
+  /** Parsed source file */
+  sourceFile: ts.SourceFile;
+
+  /** Absolute path of the module, if known */
+  filePath?: string;
+
+  /** Whether the module was reached through an import */
+  imported: boolean;
+
+  /** Imported bindings by local name ("default" and "*" for default and namespace imports) */
+  imports: Map<string, { specifier: string; name: string }>;
+
+  /** Exported expressions by exported name */
+  exports: Map<string, ts.Expression>;
+}
+
+/**
+ * State shared while matching one source file
+ */
+interface MatchContext {
+  /** Types of values to match */
+  types: MatchType[];
+
+  /** Results array to append to */
+  results: MatchResult[];
+
+  /** Resolver for imported modules */
+  resolver?: ModuleResolver;
+
+  /** Parsed modules by path, or null for modules that cannot be read */
+  modules: Map<string, ModuleScope | null>;
+
+  /** Style objects already processed */
+  visited: Set<ts.ObjectLiteralExpression>;
+}
+
+/**
+ * A style object literal and the module it is defined in
+ */
+interface ResolvedStyleObject {
+  object: ts.ObjectLiteralExpression;
+  scope: ModuleScope;
+}
+
+/**
+ * Pattern matcher for inline styles in React components
+ * Parses the source as TSX and walks style={...} attributes and the
+ * object literals they reference, so nested objects, multi-line values
+ * and comments are handled the same way the compiler sees them.
+ * References are followed through variables, spreads, useMemo and, given a
+ * module resolver and file path, imports of sibling modules.
+ */
+export class JsxStyleMatcher implements PatternMatcher {
+  /**
+   * Get the name of this matcher
+   */
+  getName(): string {
+    return 'JsxStyleMatcher';
+  }
+
+  /**
+   * Match inline styles in React components
+   * @param source Source code to search
+   * @param options Matching options
+   * @returns Array of matches, ordered by position in the source, then values from imported modules
+   */
+  match(source: string, options: MatcherOptions = {}): MatchResult[] {
+    const { types = ['color', 'spacing', 'borderRadius', 'shadow', 'typography'] } = options;
+    const context: MatchContext = {
+      types,
+      results: [],
+      resolver: options.moduleResolver,
+      modules: new Map(),
+      visited: new Set()
+    };
+
+    // Skip if style is not in the scope limit
+    if (options.scopeLimit && !options.scopeLimit.includes('style')) {
+      return context.results;
+    }
+
+    const filePath = options.filePath ? path.resolve(options.filePath) : undefined;
+    const sourceFile = ts.createSourceFile(
+      filePath ?? 'component.tsx',
+      source,
+      ts.ScriptTarget.Latest,
+      true,
+      ts.ScriptKind.TSX
+    );
+    const scope = this.createModuleScope(sourceFile, filePath, false);
+
+    if (filePath) {
+      context.modules.set(filePath, scope);
+    }
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isJsxAttribute(node) && node.name.getText(sourceFile) === 'style') {
+        const expression = node.initializer && ts.isJsxExpression(node.initializer)
+          ? node.initializer.expression
+          : undefined;
+
+        if (expression) {
+          const element = this.findEnclosingElement(node, sourceFile);
+          const target = this.unwrapExpression(expression);
+          const resolved = this.resolveStyleObject(target, scope, context);
+
+          if (resolved) {
+            // Objects reached through a name are reported under that name
+            const stylePath = ts.isIdentifier(target) || ts.isPropertyAccessExpression(target)
+              ? [target.getText(sourceFile), 'style']
+              : ['style'];
+            this.processStyleObject(resolved.object, resolved.scope, context, element, stylePath);
+          }
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+
+    return context.results.sort(compareMatches);
+  }
+
+  /**
+   * Collect the imports and exports of a module
+   * @param sourceFile Parsed source file
+   * @param filePath Absolute path of the module, if known
+   * @param imported Whether the module was reached through an import
+   * @returns Module scope
+   */
+  private createModuleScope(sourceFile: ts.SourceFile, filePath: string | undefined, imported: boolean): ModuleScope {
+    const scope: ModuleScope = {
+      sourceFile,
+      filePath,
+      imported,
+      imports: new Map(),
+      exports: new Map()
+    };
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement)) {
+        this.collectImports(statement, scope);
+      } else if (ts.isExportDeclaration(statement)) {
+        // Re-exports from other modules (`export { a } from './a'`) are not followed
+        if (!statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+          for (const element of statement.exportClause.elements) {
+            const local = element.propertyName ?? element.name;
+            if (ts.isIdentifier(local) && ts.isIdentifier(element.name)) {
+              scope.exports.set(element.name.text, local);
+            }
+          }
+        }
+      } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+        scope.exports.set('default', statement.expression);
+      } else if (
+        ts.isVariableStatement(statement) &&
+        statement.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)
+      ) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+            scope.exports.set(declaration.name.text, declaration.initializer);
+          }
+        }
+      }
+    }
+
+    return scope;
+  }
+
+  /**
+   * Record the bindings an import declaration introduces
+   * @param statement Import declaration
+   * @param scope Scope of the importing module
+   */
+  private collectImports(statement: ts.ImportDeclaration, scope: ModuleScope): void {
+    const clause = statement.importClause;
+
+    if (!clause || clause.isTypeOnly || !ts.isStringLiteral(statement.moduleSpecifier)) {
+      return;
+    }
+
+    const specifier = statement.moduleSpecifier.text;
+
+    if (clause.name) {
+      scope.imports.set(clause.name.text, { specifier, name: 'default' });
+    }
+
+    if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+      scope.imports.set(clause.namedBindings.name.text, { specifier, name: '*' });
+    } else if (clause.namedBindings) {
+      for (const element of clause.namedBindings.elements) {
+        const imported = element.propertyName ?? element.name;
+        if (!element.isTypeOnly && ts.isIdentifier(imported)) {
+          scope.imports.set(element.name.text, { specifier, name: imported.text });
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolve an expression to the style object literal it evaluates to
+   * Follows variables, property access (`styles.button`),
+   * `useMemo` callbacks and named or default imports of sibling modules.
+   * @param expression Expression to resolve
+   * @param scope Module the expression appears in
+   * @param context Matching state
+   * @param depth Number of references followed so far
+   * @returns Object literal and the module defining it, or null if it cannot be resolved
+   */
+  private resolveStyleObject(
+    expression: ts.Expression,
+    scope: ModuleScope,
+    context: MatchContext,
+    depth = 0
+  ): ResolvedStyleObject | null {
+    if (depth > MAX_RESOLVE_DEPTH) {
+      return null;
+    }
+
+    const target = this.unwrapExpression(expression);
+
+    if (ts.isObjectLiteralExpression(target)) {
+      return { object: target, scope };
+    }
+
+    if (ts.isIdentifier(target)) {
+      // Local declarations shadow imports
+      const declaration = this.findDeclaration(target);
+      if (declaration !== undefined) {
+        return declaration ? this.resolveStyleObject(declaration, scope, context, depth + 1) : null;
+      }
+
+      const binding = scope.imports.get(target.text);
+      const exported = binding ? this.resolveImport(binding.specifier, binding.name, scope, context) : null;
+      return exported ? this.resolveStyleObject(exported.expression, exported.scope, context, depth + 1) : null;
+    }
+
+    if (ts.isPropertyAccessExpression(target)) {
+      const name = target.name.text;
+      const owner = this.unwrapExpression(target.expression);
+
+      // Members of a namespace import (`import * as styles`) are exports of the module
+      const binding = ts.isIdentifier(owner) && this.findDeclaration(owner) === undefined
+        ? scope.imports.get(owner.text)
+        : undefined;
+
+      if (binding?.name === '*') {
+        const exported = this.resolveImport(binding.specifier, name, scope, context);
+        return exported ? this.resolveStyleObject(exported.expression, exported.scope, context, depth + 1) : null;
+      }
+
+      const resolved = this.resolveStyleObject(owner, scope, context, depth + 1);
+      const value = resolved ? this.findPropertyValue(resolved.object, name) : undefined;
+      return resolved && value ? this.resolveStyleObject(value, resolved.scope, context, depth + 1) : null;
+    }
+
+    if (ts.isCallExpression(target) && this.isUseMemoCall(target)) {
+      const value = this.getMemoizedValue(target);
+      return value ? this.resolveStyleObject(value, scope, context, depth + 1) : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the value an identifier is bound to, following lexical scope
+   * Enclosing blocks and functions are searched from the identifier outwards,
+   * so a declaration in one component does not resolve a name in another.
+   * @param identifier Identifier to look up
+   * @returns Initializer of the variable, null if the name is bound some other way
+   * (e.g., a parameter or destructuring), or undefined if the file does not declare it
+   */
+  private findDeclaration(identifier: ts.Identifier): ts.Expression | null | undefined {
+    const name = identifier.text;
+
+    for (let node: ts.Node | undefined = identifier.parent; node; node = node.parent) {
+      if (ts.isFunctionLike(node) && node.parameters.some(parameter => this.bindsName(parameter.name, name))) {
+        return null;
+      }
+
+      if (
+        (ts.isForStatement(node) || ts.isForOfStatement(node) || ts.isForInStatement(node)) &&
+        node.initializer &&
+        ts.isVariableDeclarationList(node.initializer) &&
+        node.initializer.declarations.some(declaration => this.bindsName(declaration.name, name))
+      ) {
+        return null;
+      }
+
+      const statements = ts.isBlock(node) || ts.isSourceFile(node) || ts.isModuleBlock(node) || ts.isCaseOrDefaultClause(node)
+        ? node.statements
+        : [];
+
+      for (const statement of statements) {
+        if (ts.isVariableStatement(statement)) {
+          const declaration = statement.declarationList.declarations
+            .find(candidate => this.bindsName(candidate.name, name));
+
+          if (declaration) {
+            return ts.isIdentifier(declaration.name) ? declaration.initializer ?? null : null;
+          }
+        } else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name?.text === name) {
+          return null;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check whether a binding name or destructuring pattern declares a name
+   * @param binding Binding name
+   * @param name Name to look for
+   * @returns True if the binding declares the name
+   */
+  private bindsName(binding: ts.BindingName, name: string): boolean {
+    if (ts.isIdentifier(binding)) {
+      return binding.text === name;
+    }
+
+    return binding.elements.some(element => !ts.isOmittedExpression(element) && this.bindsName(element.name, name));
+  }
+
+  /**
+   * Find the expression a module exports under a name
+   * @param specifier Import specifier (e.g., "./styles")
+   * @param name Exported name, or "default"
+   * @param scope Scope of the importing module
+   * @param context Matching state
+   * @returns Exported expression and the scope of its module, or null if it cannot be found
+   */
+  private resolveImport(
+    specifier: string,
+    name: string,
+    scope: ModuleScope,
+    context: MatchContext
+  ): { expression: ts.Expression; scope: ModuleScope } | null {
+    if (!context.resolver || !scope.filePath) {
+      return null;
+    }
+
+    const filePath = context.resolver.resolve(specifier, scope.filePath);
+    const module = filePath ? this.loadModule(filePath, context) : null;
+    const expression = module?.exports.get(name);
+
+    return module && expression ? { expression, scope: module } : null;
+  }
+
+  /**
+   * Parse an imported module, once per match call
+   * @param filePath Absolute path of the module
+   * @param context Matching state
+   * @returns Module scope, or null if the module cannot be read
+   */
+  private loadModule(filePath: string, context: MatchContext): ModuleScope | null {
+    if (!context.modules.has(filePath)) {
+      const source = context.resolver?.readSource(filePath) ?? null;
+      const sourceFile = source === null ? null : ts.createSourceFile(
+        filePath,
+        source,
+        ts.ScriptTarget.Latest,
+        true,
+        // Angle-bracket type assertions only parse in plain TypeScript files
+        /\.[mc]?ts$/.test(filePath) ? ts.ScriptKind.TS : ts.ScriptKind.TSX
+      );
+
+      context.modules.set(filePath, sourceFile ? this.createModuleScope(sourceFile, filePath, true) : null);
+    }
+
+    return context.modules.get(filePath)!;
+  }
+
+  /**
+   * Check whether a call is `useMemo(...)` or `React.useMemo(...)`
+   * @param call Call expression
+   * @returns True for useMemo calls
+   */
+  private isUseMemoCall(call: ts.CallExpression): boolean {
+    const callee = call.expression;
+
+    return (ts.isIdentifier(callee) && callee.text === 'useMemo') ||
+      (ts.isPropertyAccessExpression(callee) && callee.name.text === 'useMemo');
+  }
+
+  /**
+   * Get the value a useMemo callback returns
+   * Returns nested in conditions or loops count too; a callback that can return
+   * more than one value is ambiguous and yields nothing.
+   * @param call useMemo call expression
+   * @returns Expression body, or the only value returned from a block body
+   */
+  private getMemoizedValue(call: ts.CallExpression): ts.Expression | undefined {
+    const callback = call.arguments[0] ? this.unwrapExpression(call.arguments[0]) : undefined;
+
+    if (!callback || !(ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))) {
+      return undefined;
+    }
+
+    if (!ts.isBlock(callback.body)) {
+      return callback.body;
+    }
+
+    const returns: ts.ReturnStatement[] = [];
+    this.collectReturns(callback.body, returns);
+
+    return returns.length === 1 ? returns[0].expression : undefined;
+  }
+
+  /**
+   * Collect the return statements of a function body
+   * @param node Node to search
+   * @param returns Return statements found so far
+   */
+  private collectReturns(node: ts.Node, returns: ts.ReturnStatement[]): void {
+    ts.forEachChild(node, child => {
+      if (ts.isReturnStatement(child)) {
+        returns.push(child);
+      } else if (!ts.isFunctionLike(child) && !ts.isClassLike(child)) {
+        // Nested functions and classes return from themselves, not from the callback
+        this.collectReturns(child, returns);
+      }
+    });
+  }
+
+  /**
+   * Find the value of a named property in an object literal
+   * @param object Object literal
+   * @param name Property name
+   * @returns Property value, or undefined if the object does not set it
+   */
+  private findPropertyValue(object: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+    // Later properties override earlier ones
+    for (const property of [...object.properties].reverse()) {
+      if (ts.isPropertyAssignment(property) && this.getPropertyName(property.name) === name) {
+        return property.initializer;
+      }
+
+      if (ts.isShorthandPropertyAssignment(property) && property.name.text === name) {
+        return property.name;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Process an object literal to extract style properties
+   * Each object is processed once, however many elements or spreads use it.
+   * @param object Style object literal
+   * @param scope Module defining the object
+   * @param context Matching state
+   * @param element Element name
+   * @param path Property path leading to this object
+   */
+  private processStyleObject(
+    object: ts.ObjectLiteralExpression,
+    scope: ModuleScope,
+    context: MatchContext,
+    element: string | undefined,
+    path: string[]
+  ): void {
+    if (context.visited.has(object)) {
+      return;
+    }
+
+    context.visited.add(object);
+
+    for (const property of object.properties) {
+      // Spread objects contribute their properties (e.g., {...baseStyles, color})
+      if (ts.isSpreadAssignment(property)) {
+        const spread = this.resolveStyleObject(property.expression, scope, context);
+        if (spread) {
+          this.processStyleObject(spread.object, spread.scope, context, element, path);
+        }
+        continue;
+      }
+
+      if (!ts.isPropertyAssignment(property)) {
+        continue;
+      }
+
+      const propertyName = this.getPropertyName(property.name);
+      if (!propertyName) {
+        continue;
+      }
+
+      const initializer = this.unwrapExpression(property.initializer);
+
+      // Nested objects hold pseudo-selectors or media queries (e.g., ':hover')
+      if (ts.isObjectLiteralExpression(initializer)) {
+        this.processStyleObject(initializer, scope, context, element, [...path, propertyName]);
+        continue;
+      }
+
+      const type = CSS_PROPERTY_CATEGORIES[propertyName];
+
+      // Skip if not a CSS property we're interested in
+      if (!type || !context.types.includes(type)) {
+        continue;
+      }
+
+      // Properties of the same object literal belong to one group
+      const start = object.getStart(scope.sourceFile);
+      const group = scope.imported ? `${scope.filePath}:${start}` : String(start);
+
+      for (const literal of this.getStringLiterals(initializer)) {
+        this.addMatch(literal, propertyName, type, scope, context, element, [...path, propertyName], group);
+      }
+    }
+  }
+
+  /**
+   * Create a match result for a string literal if its value fits the type
+   * @param literal String literal node
+   * @param property CSS property name
+   * @param type Match type for the property
+   * @param scope Module defining the literal
+   * @param context Matching state
+   * @param element Element name
+   * @param path Property path to the value
+   * @param group Group shared by the properties of the style object
+   */
+  private addMatch(
+    literal: ts.StringLiteral | ts.NoSubstitutionTemplateLiteral,
+    property: string,
+    type: MatchType,
+    scope: ModuleScope,
+    context: MatchContext,
+    element: string | undefined,
+    path: string[],
+    group: string
+  ): void {
+    const { sourceFile } = scope;
+    const source = sourceFile.text;
+
+    // Location covers the text between the quotes
+    const start = literal.getStart(sourceFile) + 1;
+    const end = literal.getEnd() - 1;
+    const value = source.substring(start, end);
+
+    // Skip values that already reference a CSS variable
+    if (!value.trim() || value.includes('var(') || !PROPERTY_TYPE_PATTERNS[type].test(value)) {
+      return;
+    }
+
+    context.results.push({
+      type,
+      value,
+      property,
+      scope: 'style',
+      context: {
+        line: getFullLine(source, start),
+        element
+      },
+      location: createMatchLocation(source, start, end),
+      path,
+      group,
+      // Locations of imported values point into the module defining them
+      ...(scope.imported ? { filePath: scope.filePath } : {})
+    });
+  }
+
+  /**
+   * Get the string literals a property value can evaluate to
+   * @param expression Property value expression
+   * @returns String literal nodes (both branches of a conditional are included)
+   */
+  private getStringLiterals(expression: ts.Expression): Array<ts.StringLiteral | ts.NoSubstitutionTemplateLiteral> {
+    if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+      return [expression];
+    }
+
+    if (ts.isConditionalExpression(expression)) {
+      return [
+        ...this.getStringLiterals(this.unwrapExpression(expression.whenTrue)),
+        ...this.getStringLiterals(this.unwrapExpression(expression.whenFalse))
+      ];
+    }
+
+    return [];
+  }
+
+  /**
+   * Get the static name of an object property
+   * @param name Property name node
+   * @returns Property name, or undefined for computed names
+   */
+  private getPropertyName(name: ts.PropertyName): string | undefined {
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+
+    if (ts.isComputedPropertyName(name) && ts.isStringLiteralLike(name.expression)) {
+      return name.expression.text;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Strip parentheses and type assertions from an expression
+   * @param expression Expression to unwrap
+   * @returns The underlying expression
+   */
+  private unwrapExpression(expression: ts.Expression): ts.Expression {
+    let current = expression;
+
+    while (
+      ts.isParenthesizedExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isSatisfiesExpression(current) ||
+      ts.isTypeAssertionExpression(current) ||
+      ts.isNonNullExpression(current)
+    ) {
+      current = current.expression;
+    }
+
+    return current;
+  }
+
+  /**
+   * Find the JSX element that owns an attribute
+   * @param attribute JSX attribute node
+   * @param sourceFile Parsed source file
+   * @returns Element tag name
+   */
+  private findEnclosingElement(attribute: ts.JsxAttribute, sourceFile: ts.SourceFile): string | undefined {
+    const owner = attribute.parent.parent;
+
+    if (ts.isJsxOpeningElement(owner) || ts.isJsxSelfClosingElement(owner)) {
+      return owner.tagName.getText(sourceFile);
+    }
+
+    return undefined;
+  }
+}
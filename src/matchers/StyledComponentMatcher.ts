@@ -0,0 +1,206 @@
+/**
+ * Matcher for styled-components and emotion tagged template literals
+ */
+
+import ts from 'typescript';
+import {
+  MatchResult,
+  MatchType,
+  MatcherOptions,
+  PatternMatcher,
+  CSS_PROPERTY_CATEGORIES,
+  PROPERTY_TYPE_PATTERNS,
+  createMatchLocation,
+  getFullLine
+} from './types.js';
+import { parseCssDeclarations, toCamelCase } from '../utils/cssUtils.js';
+
+/**
+ * Tag functions that take CSS template literals
+ */
+const CSS_TEMPLATE_TAGS = ['css', 'keyframes', 'createGlobalStyle', 'injectGlobal', 'styled'];
+
+/**
+ * Pattern matcher for CSS-in-JS tagged templates
+ * Identifies values in templates like styled.div`color: #fff;` or css`padding: 8px;`
+ */
+export class StyledComponentMatcher implements PatternMatcher {
+  /**
+   * Get the name of this matcher
+   */
+  getName(): string {
+    return 'StyledComponentMatcher';
+  }
+
+  /**
+   * Match values in styled-components and emotion templates
+   * @param source Source code to search
+   * @param options Matching options
+   * @returns Array of matches, ordered by position in the source
+   */
+  match(source: string, options: MatcherOptions = {}): MatchResult[] {
+    const results: MatchResult[] = [];
+    const { types = ['color', 'spacing', 'borderRadius', 'shadow', 'typography'] } = options;
+
+    // Skip if styled components are not in the scope limit
+    if (options.scopeLimit && !options.scopeLimit.includes('styledComponent')) {
+      return results;
+    }
+
+    const sourceFile = ts.createSourceFile(
+      'component.tsx',
+      source,
+      ts.ScriptTarget.Latest,
+      true,
+      ts.ScriptKind.TSX
+    );
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isTaggedTemplateExpression(node)) {
+        const tag = this.getTagInfo(node.tag, sourceFile);
+        if (tag) {
+          this.processTemplate(node, tag, sourceFile, types, results);
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+
+    return results.sort((a, b) => a.location.start - b.location.start);
+  }
+
+  /**
+   * Process the CSS inside a tagged template
+   * @param node Tagged template expression
+   * @param tag Tag name and styled element
+   * @param sourceFile Parsed source file
+   * @param types Types of values to match
+   * @param results Results array to append to
+   */
+  private processTemplate(
+    node: ts.TaggedTemplateExpression,
+    tag: { name: string; element?: string },
+    sourceFile: ts.SourceFile,
+    types: MatchType[],
+    results: MatchResult[]
+  ): void {
+    const source = sourceFile.text;
+    const template = node.template;
+
+    // CSS text between the backticks, with offsets relative to the source
+    const cssStart = template.getStart(sourceFile) + 1;
+    const cssEnd = template.getEnd() - 1;
+    let css = source.substring(cssStart, cssEnd);
+
+    // Mask ${} interpolations so they cannot be mistaken for CSS. The mask is not
+    // whitespace, so values trimmed by the parser still include adjacent interpolations.
+    const interpolations: Array<{ start: number; end: number }> = [];
+    if (ts.isTemplateExpression(template)) {
+      for (const span of template.templateSpans) {
+        // Span runs from the `${` that precedes the expression to the closing `}`
+        const start = span.expression.getFullStart() - 2 - cssStart;
+        const end = span.literal.getStart(sourceFile) + 1 - cssStart;
+        interpolations.push({ start, end });
+        css = css.substring(0, start) + '_'.repeat(end - start) + css.substring(end);
+      }
+    }
+
+    const variableName = this.getVariableName(node);
+
+    for (const declaration of parseCssDeclarations(css)) {
+      const property = toCamelCase(declaration.property);
+      const type = CSS_PROPERTY_CATEGORIES[property];
+
+      // Skip if not a CSS property we're interested in
+      if (!type || !types.includes(type)) {
+        continue;
+      }
+
+      // Skip values that contain an interpolation, they cannot be replaced as a whole
+      const overlapsInterpolation = interpolations.some(range =>
+        range.start <= declaration.valueEnd && range.end >= declaration.valueStart
+      );
+      if (overlapsInterpolation || !PROPERTY_TYPE_PATTERNS[type].test(declaration.value)) {
+        continue;
+      }
+
+      const start = cssStart + declaration.valueStart;
+      const end = cssStart + declaration.valueEnd;
+
+      results.push({
+        type,
+        value: declaration.value,
+        property,
+        scope: 'styledComponent',
+        context: {
+          line: getFullLine(source, start),
+          element: tag.element
+        },
+        location: createMatchLocation(source, start, end),
+        path: variableName ? [variableName, property] : [property],
+        metadata: {
+          tag: tag.name,
+          cssProperty: declaration.property,
+          selectors: declaration.selectors
+        }
+      });
+    }
+  }
+
+  /**
+   * Identify a CSS template tag
+   * @param tag Tag expression (e.g., styled.div, styled(Button).attrs(...), css)
+   * @param sourceFile Parsed source file
+   * @returns Tag name and styled element, or null if the tag is not a CSS tag
+   */
+  private getTagInfo(
+    tag: ts.Expression,
+    sourceFile: ts.SourceFile
+  ): { name: string; element?: string } | null {
+    if (ts.isIdentifier(tag)) {
+      return CSS_TEMPLATE_TAGS.includes(tag.text) ? { name: tag.text } : null;
+    }
+
+    // styled.div
+    if (ts.isPropertyAccessExpression(tag) && ts.isIdentifier(tag.expression)) {
+      return tag.expression.text === 'styled'
+        ? { name: tag.getText(sourceFile), element: tag.name.text }
+        : null;
+    }
+
+    // styled(Button)
+    if (ts.isCallExpression(tag) && ts.isIdentifier(tag.expression)) {
+      if (tag.expression.text !== 'styled') {
+        return null;
+      }
+      const [target] = tag.arguments;
+      return {
+        name: tag.getText(sourceFile),
+        element: target ? target.getText(sourceFile).replace(/^['"]|['"]$/g, '') : undefined
+      };
+    }
+
+    // styled.div.attrs(...) or styled(Button).withConfig(...)
+    if (ts.isCallExpression(tag) && ts.isPropertyAccessExpression(tag.expression)) {
+      const inner = this.getTagInfo(tag.expression.expression, sourceFile);
+      return inner ? { ...inner, name: tag.getText(sourceFile) } : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the variable a tagged template is assigned to
+   * @param node Tagged template expression
+   * @returns Variable name (e.g., "Button"), if any
+   */
+  private getVariableName(node: ts.TaggedTemplateExpression): string | undefined {
+    const parent = node.parent;
+    if (parent && ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+      return parent.name.text;
+    }
+    return undefined;
+  }
+}
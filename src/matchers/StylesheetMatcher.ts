@@ -0,0 +1,98 @@
+/**
+ * Matcher for plain CSS, SCSS and CSS Modules files
+ */
+
+import {
+  MatchResult,
+  MatcherOptions,
+  PatternMatcher,
+  CSS_PROPERTY_CATEGORIES,
+  PROPERTY_TYPE_PATTERNS,
+  createMatchLocation,
+  getFullLine
+} from './types.js';
+import { parseCssDeclarations, toCamelCase } from '../utils/cssUtils.js';
+
+/**
+ * File extensions handled by the stylesheet matcher
+ */
+export const STYLESHEET_EXTENSIONS = ['.css', '.scss', '.sass', '.less'];
+
+/**
+ * Check whether a file path points to a stylesheet
+ * @param filePath File path (e.g., "Button.module.css")
+ * @returns True if the file is a stylesheet
+ */
+export function isStylesheetFile(filePath: string): boolean {
+  const lowerPath = filePath.toLowerCase();
+  return STYLESHEET_EXTENSIONS.some(extension => lowerPath.endsWith(extension));
+}
+
+/**
+ * Pattern matcher for stylesheet declarations
+ * Identifies declarations like `.button { color: #ff0000; }`
+ */
+export class StylesheetMatcher implements PatternMatcher {
+  /**
+   * Get the name of this matcher
+   */
+  getName(): string {
+    return 'StylesheetMatcher';
+  }
+
+  /**
+   * Match hardcoded values in stylesheet source
+   * @param source Stylesheet source to search
+   * @param options Matching options
+   * @returns Array of matches
+   */
+  match(source: string, options: MatcherOptions = {}): MatchResult[] {
+    const results: MatchResult[] = [];
+    const { types = ['color', 'spacing', 'borderRadius', 'shadow', 'typography'] } = options;
+
+    // Skip if stylesheets are not in the scope limit
+    if (options.scopeLimit && !options.scopeLimit.includes('stylesheet')) {
+      return results;
+    }
+
+    for (const declaration of parseCssDeclarations(source)) {
+      const property = toCamelCase(declaration.property);
+      const type = CSS_PROPERTY_CATEGORIES[property];
+
+      // Skip if not a CSS property we're interested in
+      if (!type || !types.includes(type)) {
+        continue;
+      }
+
+      // Skip values that already reference variables (CSS var(), SCSS $var or #{} interpolation)
+      if (/var\(|\$|#\{/.test(declaration.value)) {
+        continue;
+      }
+
+      if (!PROPERTY_TYPE_PATTERNS[type].test(declaration.value)) {
+        continue;
+      }
+
+      const selector = declaration.selectors[declaration.selectors.length - 1];
+
+      results.push({
+        type,
+        value: declaration.value,
+        property,
+        scope: 'stylesheet',
+        context: {
+          line: getFullLine(source, declaration.valueStart),
+          element: selector
+        },
+        location: createMatchLocation(source, declaration.valueStart, declaration.valueEnd),
+        path: [...declaration.selectors, declaration.property],
+        metadata: {
+          cssProperty: declaration.property,
+          selectors: declaration.selectors
+        }
+      });
+    }
+
+    return results;
+  }
+}
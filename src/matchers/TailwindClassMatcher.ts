@@ -2,6 +2,7 @@
  * Matcher for Tailwind CSS arbitrary value classes
  */
 
+import ts from 'typescript';
 import {
   MatchResult,
   MatchType,
@@ -11,22 +12,37 @@ import {
   createMatchLocation,
   getFullLine
 } from './types.js';
+import { isColorString, parseColor, rgbToHex } from '../utils/colorUtils.js';
+import { parseShadow } from '../utils/shadowUtils.js';
+import { TAILWIND_DEFAULT_COLORS, TAILWIND_DEFAULT_SPACING } from '../utils/tailwindDefaults.js';
+
+/**
+ * CSS property and match type of a Tailwind utility
+ */
+interface PrefixMapping {
+  property: string;
+  type: MatchType;
+}
 
 /**
  * Maps Tailwind prefixes to CSS properties and match types
+ * Prefixes shared by several utilities map to the candidates Tailwind chooses
+ * between by value, in the order it tries them. A value that fits none of the
+ * candidates (e.g., the width in `border-[2px]`) is not matched.
  */
-const TAILWIND_PREFIX_MAP: Record<string, { property: string; type: MatchType }> = {
+const TAILWIND_PREFIX_MAP: Record<string, PrefixMapping | PrefixMapping[]> = {
   // Colors
-  'bg-': { property: 'backgroundColor', type: 'color' },
-  'text-': { property: 'color', type: 'color' },
-  'border-': { property: 'borderColor', type: 'color' },
-  'border-t-': { property: 'borderTopColor', type: 'color' },
-  'border-b-': { property: 'borderBottomColor', type: 'color' },
-  'border-l-': { property: 'borderLeftColor', type: 'color' },
-  'border-r-': { property: 'borderRightColor', type: 'color' },
-  'outline-': { property: 'outlineColor', type: 'color' },
+  'bg-': [{ property: 'backgroundColor', type: 'color' }],
+  'text-': [{ property: 'color', type: 'color' }, { property: 'fontSize', type: 'typography' }],
+  'border-': [{ property: 'borderColor', type: 'color' }],
+  'border-t-': [{ property: 'borderTopColor', type: 'color' }],
+  'border-b-': [{ property: 'borderBottomColor', type: 'color' }],
+  'border-l-': [{ property: 'borderLeftColor', type: 'color' }],
+  'border-r-': [{ property: 'borderRightColor', type: 'color' }],
+  'outline-': [{ property: 'outlineColor', type: 'color' }],
+  'ring-': [{ property: 'ringColor', type: 'color' }],
   'fill-': { property: 'fill', type: 'color' },
-  'stroke-': { property: 'stroke', type: 'color' },
+  'stroke-': [{ property: 'stroke', type: 'color' }],
   'from-': { property: 'gradientColorFrom', type: 'color' },
   'to-': { property: 'gradientColorTo', type: 'color' },
   'via-': { property: 'gradientColorVia', type: 'color' },
@@ -43,7 +59,7 @@ const TAILWIND_PREFIX_MAP: Record<string, { property: string; type: MatchType }>
   'rounded-br-': { property: 'borderBottomRightRadius', type: 'borderRadius' },
   
   // Shadows
-  'shadow-': { property: 'boxShadow', type: 'shadow' },
+  'shadow-': [{ property: 'boxShadow', type: 'shadow' }, { property: 'shadowColor', type: 'color' }],
   
   // Spacing
   'm-': { property: 'margin', type: 'spacing' },
@@ -67,19 +83,96 @@ const TAILWIND_PREFIX_MAP: Record<string, { property: string; type: MatchType }>
   'space-y-': { property: 'spaceY', type: 'spacing' },
   
   // Typography
-  'text-': { property: 'fontSize', type: 'typography' },
   'font-': { property: 'fontWeight', type: 'typography' },
   'leading-': { property: 'lineHeight', type: 'typography' },
   'tracking-': { property: 'letterSpacing', type: 'typography' },
 };
 
+/**
+ * Match types allowed by Tailwind's data type hints (e.g., `text-[length:14px]`)
+ * Hints for other data types (url, line-width, ...) never hold token values.
+ */
+const TYPE_HINTS: Record<string, MatchType[]> = {
+  color: ['color'],
+  length: ['spacing', 'borderRadius', 'typography'],
+  percentage: ['spacing', 'borderRadius', 'typography'],
+  'absolute-size': ['typography'],
+  'relative-size': ['typography'],
+  'family-name': ['typography'],
+  number: ['typography'],
+  shadow: ['shadow']
+};
+
+/**
+ * CSS math functions that resolve to a length
+ */
+const MATH_FUNCTION_REGEX = /^(calc|min|max|clamp)\(/;
+
+/**
+ * Class-composing helpers whose arguments are scanned for classes by default
+ * (clsx, classnames, tailwind-merge, class-variance-authority and tailwind-variants)
+ */
+export const DEFAULT_CLASS_FUNCTIONS = ['clsx', 'classnames', 'classNames', 'cn', 'cx', 'twMerge', 'twJoin', 'cva', 'tv'];
+
+/**
+ * JSX attributes that hold class lists
+ */
+const CLASS_ATTRIBUTES = ['className', 'class'];
+
+/**
+ * A string in the source that holds a list of classes
+ */
+interface ClassList {
+  /** Class list text */
+  value: string;
+  
+  /** Offset of the text in the source */
+  start: number;
+  
+  /** Element whose className holds the list, if known */
+  element?: string;
+}
+
+/**
+ * Modifiers parsed from a Tailwind class around its utility
+ */
+export interface TailwindClassModifiers {
+  /** Variants applied to the class, outermost first (e.g., ["md", "dark"] for `md:dark:text-[#111]`) */
+  variants: string[];
+  
+  /** Whether the class is marked important (`!mt-[4px]`, or `mt-[4px]!` in Tailwind v4) */
+  important: boolean;
+  
+  /** Whether the utility is negated (`-mt-[8px]`) */
+  negative: boolean;
+  
+  /** Utility prefix including the trailing dash (e.g., "border-t-") */
+  utility: string;
+  
+  /** Data type hint written before the value (e.g., "length" in `text-[length:14px]`) */
+  typeHint?: string;
+  
+  /** Key of a default theme class in place of an arbitrary value (e.g., "blue-500" in `bg-blue-500`) */
+  themeKey?: string;
+}
+
 /**
  * Pattern matcher for Tailwind CSS arbitrary value classes
- * Identifies arbitrary value classes like bg-[#25C9D0] or text-[16px]
+ * Identifies arbitrary value classes like bg-[#25C9D0] or text-[16px],
+ * including variants (hover:, md:dark:), important and negative modifiers.
+ * Classes are read from className attributes and from the arguments of
+ * class helpers such as clsx, cn, twMerge and cva. With the `defaultTheme`
+ * option, classes from Tailwind's default palette and spacing scale are
+ * matched too.
  */
 export class TailwindClassMatcher implements PatternMatcher {
-  // Regex to match Tailwind arbitrary value classes
-  private readonly arbitraryValueRegex = /\b([a-z]+-[a-z]*-?)\[(.*?)\]/g;
+  // Regex to match Tailwind arbitrary value classes: variants, important, negative, utility, value
+  private readonly arbitraryValueRegex =
+    /(?<![^\s'"`{}])((?:(?:[\w@-]+|[\w@-]*\[[^\]\s]*\])(?:\/[\w-]+)?:)*)(!?)(-?)((?:[a-z]+-)+)\[(.*?)\](!?)/g;
+  
+  // Regex to match plain classes that may use default theme values: variants, important, negative, class, opacity
+  private readonly themeClassRegex =
+    /(?<![^\s'"`{}])((?:(?:[\w@-]+|[\w@-]*\[[^\]\s]*\])(?:\/[\w-]+)?:)*)(!?)(-?)([a-z][a-z0-9.-]*)(?:\/(\d+|\[[^\]\s]*\]))?(!?)(?![^\s'"`{}])/g;
   
   /**
    * Get the name of this matcher
@@ -92,128 +185,421 @@ export class TailwindClassMatcher implements PatternMatcher {
    * Match Tailwind arbitrary value classes in source code
    * @param source Source code to search
    * @param options Matching options
-   * @returns Array of matches
+   * @returns Array of matches, ordered by position in the source
    */
   match(source: string, options: MatcherOptions = {}): MatchResult[] {
     const results: MatchResult[] = [];
     const { types = ['color', 'spacing', 'borderRadius', 'shadow', 'typography'] } = options;
     
-    // Determine whether to scan for className props or all string literals
-    const classNamePropRegex = /className\s*=\s*(?:{(?:`|"|')(.*?)(?:`|"|')}|"(.*?)"|'(.*?)')/g;
-    
-    // Find className props in JSX to limit search scope if possible
-    let classNameMatches: Array<{ value: string; start: number; end: number }> = [];
-    let match;
-    
-    while ((match = classNamePropRegex.exec(source)) !== null) {
-      const value = match[1] || match[2] || match[3] || '';
-      const start = match.index;
-      const end = start + match[0].length;
-      
-      classNameMatches.push({ value, start, end });
-    }
-    
-    // If no className props found, scan entire source for possible Tailwind classes
-    if (classNameMatches.length === 0) {
-      // Look for arbitrary value Tailwind patterns in string literals
-      const stringLiteralRegex = /"(.*?)"|'(.*?)'|`(.*?)`/gs;
-      while ((match = stringLiteralRegex.exec(source)) !== null) {
-        const value = match[1] || match[2] || match[3] || '';
-        const start = match.index;
-        const end = start + match[0].length;
-        
-        classNameMatches.push({ value, start, end });
-      }
-    }
-    
-    // Process each className value
-    for (const classNameMatch of classNameMatches) {
-      const classNameValue = classNameMatch.value;
-      
+    // Process each class list in className attributes and class helper calls
+    for (const classList of this.findClassLists(source, options.classFunctions ?? DEFAULT_CLASS_FUNCTIONS)) {
       // Reset the lastIndex to start search from beginning of the string
       this.arbitraryValueRegex.lastIndex = 0;
       
-      // Find arbitrary value classes within the className
+      // Find arbitrary value classes within the class list
       let arbitraryMatch;
-      while ((arbitraryMatch = this.arbitraryValueRegex.exec(classNameValue)) !== null) {
-        const prefix = arbitraryMatch[1]; // e.g., "bg-", "text-"
-        const value = arbitraryMatch[2];  // value inside brackets
+      while ((arbitraryMatch = this.arbitraryValueRegex.exec(classList.value)) !== null) {
+        const [className, variantChain, importantPrefix, negative, prefix, arbitraryValue, importantSuffix] = arbitraryMatch;
         
-        // Skip if no mapping exists for this prefix
-        if (!TAILWIND_PREFIX_MAP[prefix]) {
+        // Split off a data type hint (e.g., "length:" in text-[length:14px])
+        const hintMatch = /^([a-z-]+):(?!\/\/)/.exec(arbitraryValue);
+        const typeHint = hintMatch?.[1];
+        const value = hintMatch ? arbitraryValue.substring(hintMatch[0].length) : arbitraryValue;
+        
+        // Skip values that already reference a CSS variable
+        if (value.includes('var(')) {
           continue;
         }
         
-        const { property, type } = TAILWIND_PREFIX_MAP[prefix];
+        // Skip if no mapping exists for this prefix and value
+        const mapping = this.resolvePrefix(prefix, value, typeHint);
+        if (!mapping) {
+          continue;
+        }
         
         // Skip if the type is not in the requested types
-        if (!types.includes(type)) {
+        if (!types.includes(mapping.type)) {
           continue;
         }
         
-        // Calculate position in original source
-        const valueStart = classNameMatch.start + arbitraryMatch.index + prefix.length + 1; // +1 for the [
-        const valueEnd = valueStart + value.length;
-        
-        // Create match result
-        const result: MatchResult = {
-          type,
-          value,
-          property,
-          scope: 'className',
-          context: {
-            line: getFullLine(source, valueStart)
-          },
-          location: createMatchLocation(source, valueStart, valueEnd),
-          path: ['className', prefix + '[' + value + ']']
+        const modifiers: TailwindClassModifiers = {
+          variants: this.parseVariants(variantChain),
+          important: Boolean(importantPrefix || importantSuffix),
+          negative: Boolean(negative),
+          utility: prefix
         };
         
-        // Attempt to extract element name
-        const elementRegex = /<([A-Za-z0-9]+)[^>]*className\s*=\s*(?:{(?:`|"|')|\"|')(.*?)(?:`|"|')}|"|')/;
-        const lineContext = result.context.line;
-        const elementMatch = lineContext.match(elementRegex);
+        if (typeHint) {
+          modifiers.typeHint = typeHint;
+        }
+        
+        // Calculate position in original source, after the modifiers, the [ and any type hint
+        const valueStart = classList.start + arbitraryMatch.index + variantChain.length +
+          importantPrefix.length + negative.length + prefix.length + 1 + (hintMatch?.[0].length ?? 0);
+        
+        results.push(this.createMatch(source, classList, className, mapping, value, valueStart, modifiers));
+      }
+      
+      if (options.defaultTheme) {
+        this.matchThemeClasses(source, classList, types, results);
+      }
+    }
+    
+    return results.sort((a, b) => a.location.start - b.location.start);
+  }
+  
+  /**
+   * Match classes that use Tailwind's default color palette or spacing scale
+   * (e.g., `bg-blue-500` or `-mt-3`), resolved to their literal values
+   * @param source Source code being searched
+   * @param classList Class list to search
+   * @param types Types of values to match
+   * @param results Results array to append to
+   */
+  private matchThemeClasses(source: string, classList: ClassList, types: MatchType[], results: MatchResult[]): void {
+    this.themeClassRegex.lastIndex = 0;
+    
+    let themeMatch;
+    while ((themeMatch = this.themeClassRegex.exec(classList.value)) !== null) {
+      const [className, variantChain, importantPrefix, negative, utilityClass, opacity, importantSuffix] = themeMatch;
+      const resolved = this.resolveThemeClass(utilityClass);
+      
+      if (!resolved || !types.includes(resolved.mapping.type)) {
+        continue;
+      }
+      
+      const { mapping, prefix, key } = resolved;
+      let { value } = resolved;
+      
+      // Opacity modifiers (`bg-blue-500/50`, `bg-blue-500/[0.35]`) become the alpha of the color
+      if (opacity !== undefined) {
+        const alpha = mapping.type === 'color' ? this.parseOpacity(opacity) : null;
+        if (alpha === null) {
+          continue;
+        }
+        value = rgbToHex({ ...parseColor(value).rgb, a: alpha });
+      }
+      const modifiers: TailwindClassModifiers = {
+        variants: this.parseVariants(variantChain),
+        important: Boolean(importantPrefix || importantSuffix),
+        negative: Boolean(negative),
+        utility: prefix,
+        themeKey: key
+      };
+      
+      // The location covers the theme key, as it covers the value of arbitrary value classes
+      const keyStart = classList.start + themeMatch.index + variantChain.length +
+        importantPrefix.length + negative.length + prefix.length;
+      
+      results.push({
+        ...this.createMatch(source, classList, className, mapping, value, keyStart, modifiers),
+        location: createMatchLocation(source, keyStart, keyStart + key.length)
+      });
+    }
+  }
+  
+  /**
+   * Parse the opacity modifier of a class
+   * @param opacity Modifier without the slash (e.g., "50", "[0.35]" or "[35%]")
+   * @returns Alpha (0-1), or null if the modifier is not an opacity
+   */
+  private parseOpacity(opacity: string): number | null {
+    const arbitrary = /^\[(\d*\.?\d+)(%?)\]$/.exec(opacity);
+    const alpha = arbitrary
+      ? Number(arbitrary[1]) / (arbitrary[2] ? 100 : 1)
+      : /^\d+$/.test(opacity) ? Number(opacity) / 100 : NaN;
+    
+    return alpha >= 0 && alpha <= 1 ? alpha : null;
+  }
+  
+  /**
+   * Resolve a class to a default theme value
+   * @param utilityClass Class without variants and modifiers (e.g., "border-t-red-500")
+   * @returns Utility mapping, prefix, theme key and literal value, or null for other classes
+   */
+  private resolveThemeClass(
+    utilityClass: string
+  ): { mapping: PrefixMapping; prefix: string; key: string; value: string } | null {
+    // Try longer prefixes first so border-t-red-500 is not read as border- with key t-red-500
+    const prefixes = Object.keys(TAILWIND_PREFIX_MAP)
+      .filter(prefix => utilityClass.startsWith(prefix))
+      .sort((a, b) => b.length - a.length);
+    
+    for (const prefix of prefixes) {
+      const key = utilityClass.substring(prefix.length);
+      const mapping = TAILWIND_PREFIX_MAP[prefix];
+      
+      for (const candidate of Array.isArray(mapping) ? mapping : [mapping]) {
+        const value = candidate.type === 'color'
+          ? TAILWIND_DEFAULT_COLORS[key]
+          : candidate.type === 'spacing' ? TAILWIND_DEFAULT_SPACING[key] : undefined;
         
-        if (elementMatch) {
-          result.context.element = elementMatch[1];
+        if (value !== undefined) {
+          return { mapping: candidate, prefix, key, value };
         }
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Create the match result for a class
+   * @param source Source code being searched
+   * @param classList Class list holding the class
+   * @param className Class as written
+   * @param mapping CSS property and match type of the class
+   * @param value Matched value
+   * @param valueStart Offset of the value in the source
+   * @param modifiers Variants and modifiers of the class
+   * @returns Match result
+   */
+  private createMatch(
+    source: string,
+    classList: ClassList,
+    className: string,
+    mapping: PrefixMapping,
+    value: string,
+    valueStart: number,
+    modifiers: TailwindClassModifiers
+  ): MatchResult {
+    return {
+      type: mapping.type,
+      value,
+      property: mapping.property,
+      scope: 'className',
+      context: {
+        line: getFullLine(source, valueStart),
+        element: classList.element
+      },
+      location: createMatchLocation(source, valueStart, valueStart + value.length),
+      path: ['className', className],
+      // Classes from the same class list and variant stack belong to one group
+      group: [classList.start, ...modifiers.variants].join(':'),
+      metadata: modifiers
+    };
+  }
+  
+  /**
+   * Find the class lists in className attributes and in the arguments of class helpers
+   * @param source Source code to search
+   * @param classFunctions Names of class-composing helper functions
+   * @returns Class lists, in the order they were found
+   */
+  private findClassLists(source: string, classFunctions: string[]): ClassList[] {
+    const classLists: ClassList[] = [];
+    const sourceFile = ts.createSourceFile(
+      'component.tsx',
+      source,
+      ts.ScriptTarget.Latest,
+      true,
+      ts.ScriptKind.TSX
+    );
+    
+    const visit = (node: ts.Node): void => {
+      if (ts.isJsxAttribute(node) && CLASS_ATTRIBUTES.includes(node.name.getText(sourceFile))) {
+        const owner = node.parent.parent;
+        const element = ts.isJsxOpeningElement(owner) || ts.isJsxSelfClosingElement(owner)
+          ? owner.tagName.getText(sourceFile)
+          : undefined;
+        const expression = node.initializer && ts.isJsxExpression(node.initializer)
+          ? node.initializer.expression
+          : node.initializer;
         
-        results.push(result);
+        if (expression) {
+          this.collectClassLists(expression, sourceFile, classFunctions, element, classLists);
+        }
+        return;
+      }
+      
+      if (ts.isCallExpression(node) && this.isClassFunctionCall(node, classFunctions)) {
+        this.collectClassLists(node, sourceFile, classFunctions, undefined, classLists);
+        return;
+      }
+      
+      ts.forEachChild(node, visit);
+    };
+    
+    visit(sourceFile);
+    
+    return classLists;
+  }
+  
+  /**
+   * Collect the strings an expression may contribute to a class list
+   * Follows conditionals, logical operators, arrays, object keys and values,
+   * and nested class helper calls.
+   * @param node Expression holding classes
+   * @param sourceFile Parsed source file
+   * @param classFunctions Names of class-composing helper functions
+   * @param element Element whose className holds the expression, if known
+   * @param classLists Class lists to append to
+   */
+  private collectClassLists(
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    classFunctions: string[],
+    element: string | undefined,
+    classLists: ClassList[]
+  ): void {
+    const collect = (child: ts.Node): void =>
+      this.collectClassLists(child, sourceFile, classFunctions, element, classLists);
+    
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+      // Scan the literal as written so offsets line up with the source, and classes
+      // built around template substitutions are still found
+      const start = node.getStart(sourceFile) + 1;
+      classLists.push({ value: sourceFile.text.substring(start, node.getEnd() - 1), start, element });
+    } else if (ts.isParenthesizedExpression(node)) {
+      collect(node.expression);
+    } else if (ts.isConditionalExpression(node)) {
+      collect(node.whenTrue);
+      collect(node.whenFalse);
+    } else if (ts.isBinaryExpression(node)) {
+      collect(node.left);
+      collect(node.right);
+    } else if (ts.isArrayLiteralExpression(node)) {
+      node.elements.forEach(collect);
+    } else if (ts.isObjectLiteralExpression(node)) {
+      for (const property of node.properties) {
+        if (ts.isPropertyAssignment(property)) {
+          // Keys hold classes in clsx-style objects, values in cva and tv configs
+          if (ts.isStringLiteral(property.name) || ts.isNoSubstitutionTemplateLiteral(property.name)) {
+            collect(property.name);
+          }
+          collect(property.initializer);
+        }
       }
+    } else if (ts.isCallExpression(node) && this.isClassFunctionCall(node, classFunctions)) {
+      node.arguments.forEach(collect);
     }
+  }
+  
+  /**
+   * Check whether a call is to a class-composing helper
+   * @param node Call expression
+   * @param classFunctions Names of class-composing helper functions
+   * @returns True for calls such as `cn(...)` or `utils.cn(...)`
+   */
+  private isClassFunctionCall(node: ts.CallExpression, classFunctions: string[]): boolean {
+    const callee = node.expression;
+    const name = ts.isIdentifier(callee)
+      ? callee.text
+      : ts.isPropertyAccessExpression(callee) ? callee.name.text : undefined;
+    
+    return name !== undefined && classFunctions.includes(name);
+  }
+  
+  /**
+   * Split a variant chain into its variants
+   * Colons inside arbitrary variants (e.g., `[&:hover]:`) do not split.
+   * @param chain Variant chain including the trailing colon (e.g., "md:dark:")
+   * @returns Variants, outermost first (e.g., ["md", "dark"])
+   */
+  private parseVariants(chain: string): string[] {
+    const variants: string[] = [];
+    let depth = 0;
+    let current = '';
+    
+    for (const char of chain) {
+      if (char === ':' && depth === 0) {
+        variants.push(current);
+        current = '';
+        continue;
+      }
+      
+      if (char === '[') {
+        depth++;
+      } else if (char === ']') {
+        depth--;
+      }
+      current += char;
+    }
+    
+    return variants;
+  }
+  
+  /**
+   * Choose the CSS property and match type for a prefix
+   * Type hints decide between candidates; otherwise the first candidate the
+   * value fits is used, as Tailwind does. Template substitutions are judged
+   * by the string literals they can evaluate to, and skipped without any.
+   * @param prefix Utility prefix (e.g., "text-")
+   * @param value Arbitrary value without its type hint
+   * @param typeHint Data type hint (e.g., "length"), if any
+   * @returns Property and match type, or null if the class holds no token value
+   */
+  private resolvePrefix(prefix: string, value: string, typeHint?: string): PrefixMapping | null {
+    const mapping = TAILWIND_PREFIX_MAP[prefix];
+    
+    if (!mapping) {
+      return null;
+    }
+    
+    // A substitution such as `${color}` holds no hardcoded value, `${dark ? '#000' : '#fff'}` does
+    const values = value.includes('${') ? this.getSubstitutionLiterals(value) : [value];
     
-    return results;
+    if (values.length === 0) {
+      return null;
+    }
+    
+    const candidates = Array.isArray(mapping) ? mapping : [mapping];
+    
+    if (typeHint && typeHint !== 'any') {
+      const hintedTypes = TYPE_HINTS[typeHint] ?? [];
+      return candidates.find(candidate => hintedTypes.includes(candidate.type)) ?? null;
+    }
+    
+    // Single utilities take any value
+    if (!Array.isArray(mapping)) {
+      return mapping;
+    }
+    
+    return candidates.find(candidate => values.some(literal => this.isLikelyType(literal, candidate.type))) ?? null;
+  }
+  
+  /**
+   * Get the string literals inside the template substitutions of a value
+   * @param value Arbitrary value containing `${...}`
+   * @returns Contents of the quoted strings (e.g., ["#000", "#fff"])
+   */
+  private getSubstitutionLiterals(value: string): string[] {
+    return [...value.matchAll(/(['"])(.*?)\1/g)].map(literal => literal[2]).filter(Boolean);
   }
   
   /**
    * Determine if a value is likely a particular type
-   * @param value The value to check
+   * @param value The value to check, with underscores for spaces as in Tailwind classes
    * @param type The type to check for
    * @returns True if the value matches the type pattern
    */
   private isLikelyType(value: string, type: MatchType): boolean {
+    const cssValue = value.replace(/_/g, ' ');
+    
     switch (type) {
       case 'color':
-        // Match hex, rgb, rgba, hsl, etc.
-        return /^#[0-9a-fA-F]{3,8}$|^rgba?\(|^hsla?\(|^oklch\(/.test(value);
+        // Match hex, rgb(), hsl(), oklch(), named colors, etc.
+        return isColorString(cssValue);
         
       case 'spacing':
         // Match px, rem, em, %, etc.
-        return /^-?(\d*\.)?\d+(px|rem|em|%|vh|vw)$/.test(value);
+        return /^-?(\d*\.)?\d+(px|rem|em|%|vh|vw)$/.test(value) || MATH_FUNCTION_REGEX.test(value);
         
       case 'borderRadius':
         // Match px, rem, em, % for border radius
-        return /^(\d*\.)?\d+(px|rem|em|%)$/.test(value);
+        return /^(\d*\.)?\d+(px|rem|em|%)$/.test(value) || MATH_FUNCTION_REGEX.test(value);
         
       case 'shadow':
-        // Match complex shadow patterns with px values and colors
-        return /\d+px/.test(value) && /rgba?\(|#[0-9a-fA-F]/.test(value);
+        // Match offsets with an optional blur, spread, color and inset keyword
+        return parseShadow(cssValue) !== null;
         
       case 'typography':
         // Match font sizes, weights, etc.
-        return /^(\d*\.)?\d+(px|rem|em|%)$|^(normal|bold|light|medium)$/.test(value);
+        return /^(\d*\.)?\d+(px|rem|em|%)$|^(normal|bold|light|medium)$/.test(value) ||
+          MATH_FUNCTION_REGEX.test(value);
         
       default:
         return false;
     }
   }
-}
\ No newline at end of file
+}
@@ -4,4 +4,7 @@
 
 export * from './types.js';
 export * from './TailwindClassMatcher.js';
-export * from './InlineStyleMatcher.js';
\ No newline at end of file
+export * from './InlineStyleMatcher.js';
+export * from './JsxStyleMatcher.js';
+export * from './StyledComponentMatcher.js';
+export * from './StylesheetMatcher.js';
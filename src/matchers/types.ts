@@ -2,11 +2,19 @@
  * Types for the pattern matcher system
  */
 
+import type { ModuleResolver } from '../core/moduleResolver.js';
+import { NAMED_COLORS } from '../utils/namedColors.js';
+
 /**
  * Types of values that can be matched
  */
 export type MatchType = 'color' | 'spacing' | 'borderRadius' | 'shadow' | 'typography';
 
+/**
+ * Where a matched value was found
+ */
+export type MatchScope = 'style' | 'className' | 'prop' | 'styledComponent' | 'stylesheet';
+
 /**
  * CSS property category mapping
  */
@@ -31,9 +39,16 @@ export const CSS_PROPERTY_CATEGORIES: Record<string, MatchType> = {
   paddingRight: 'spacing',
   paddingBottom: 'spacing',
   paddingLeft: 'spacing',
+  marginBlock: 'spacing',
+  marginInline: 'spacing',
+  paddingBlock: 'spacing',
+  paddingInline: 'spacing',
   gap: 'spacing',
   columnGap: 'spacing',
   rowGap: 'spacing',
+  inset: 'spacing',
+  insetBlock: 'spacing',
+  insetInline: 'spacing',
   
   // Border radius properties
   borderRadius: 'borderRadius',
@@ -55,6 +70,22 @@ export const CSS_PROPERTY_CATEGORIES: Record<string, MatchType> = {
   fontFamily: 'typography'
 };
 
+/**
+ * Value regex patterns for each match type
+ */
+export const PROPERTY_TYPE_PATTERNS: Record<MatchType, RegExp> = {
+  color: new RegExp(
+    '#[0-9a-fA-F]{3,8}|\\b(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\\s*\\([^)]+\\)|' +
+    // Named colors must be whole words, not part of an identifier such as `--olivia-blue`
+    `(?<![\\w-])(?:${Object.keys(NAMED_COLORS).join('|')})(?![\\w-])`,
+    'i'
+  ),
+  spacing: /-?\d*\.?\d+(px|rem|em|%|vh|vw)/,
+  borderRadius: /\d*\.?\d+(px|rem|em|%)/,
+  shadow: /\d+px\s+\d+px(\s+\d+px)?(\s+\d+px)?(\s+rgba?\([^)]+\)|#[0-9a-fA-F]{3,8})?/,
+  typography: /\d*\.?\d+(px|rem|em|%)|normal|bold|lighter|bolder|\d{3}|inherit|initial/
+};
+
 /**
  * Location information for a match
  */
@@ -86,7 +117,7 @@ export interface MatchResult {
   property: string;
   
   /** Original property scope (e.g., "style", "className", etc.) */
-  scope: 'style' | 'className' | 'prop' | 'styledComponent';
+  scope: MatchScope;
   
   /** Context around the match (helpful for replacement) */
   context: {
@@ -103,6 +134,12 @@ export interface MatchResult {
   /** When style is in an object literal or Tailwind class, property path to the value */
   path?: string[];
   
+  /** Shared by values declared together in one style object or class list */
+  group?: string;
+  
+  /** File the value is defined in, when it differs from the file being matched (e.g., an imported style object) */
+  filePath?: string;
+  
   /** Additional metadata specific to the matcher */
   metadata?: Record<string, any>;
 }
@@ -118,10 +155,22 @@ export interface MatcherOptions {
   includeContext?: boolean;
   
   /** Limit the scope of the search (e.g., only match inline styles) */
-  scopeLimit?: Array<'style' | 'className' | 'prop' | 'styledComponent'>;
+  scopeLimit?: MatchScope[];
   
   /** Custom patterns to match */
   customPatterns?: RegExp[];
+  
+  /** Class-composing helpers whose arguments hold Tailwind classes (e.g., ["clsx", "cn"]) */
+  classFunctions?: string[];
+  
+  /** Also match classes from Tailwind's default color palette and spacing scale (e.g., `bg-blue-500`, `p-3`) */
+  defaultTheme?: boolean;
+  
+  /** Path of the file being matched, used to resolve its relative imports */
+  filePath?: string;
+  
+  /** Resolver for following imported style objects into sibling modules */
+  moduleResolver?: ModuleResolver;
 }
 
 /**
@@ -174,6 +223,18 @@ export function createMatchLocation(source: string, start: number, end: number):
   return { start, end, line, column };
 }
 
+/**
+ * Order match results by position
+ * Values from the file being matched come first, followed by values defined
+ * in other modules, grouped by file.
+ * @param a First match
+ * @param b Second match
+ * @returns Negative if a comes first, positive if b comes first
+ */
+export function compareMatches(a: MatchResult, b: MatchResult): number {
+  return (a.filePath ?? '').localeCompare(b.filePath ?? '') || a.location.start - b.location.start;
+}
+
 /**
  * Extract the entire line containing a match
  * @param source Source text
@@ -0,0 +1,59 @@
+/**
+ * JSON reporter
+ */
+
+import { AuditReport, Reporter, getMatchEnd, getThemeClass } from './types.js';
+
+/**
+ * Reporter that writes the audit as a JSON document
+ */
+export class JsonReporter implements Reporter {
+  /**
+   * Get the name of this reporter
+   */
+  getName(): string {
+    return 'json';
+  }
+
+  /**
+   * Format an audit report as JSON
+   * @param report Audit report
+   * @returns JSON document
+   */
+  format(report: AuditReport): string {
+    const findings = report.entries.map(({ filePath, match, suggestion, textStyle, fixable }) => ({
+      file: filePath,
+      line: match.location.line,
+      column: match.location.column,
+      ...getMatchEnd(match),
+      type: match.type,
+      scope: match.scope,
+      property: match.property,
+      value: match.value,
+      ...(getThemeClass(match) && { className: getThemeClass(match) }),
+      fixable: fixable !== false,
+      suggestion: suggestion
+        ? {
+            token: suggestion.token.name,
+            cssVariable: suggestion.token.cssVariable,
+            ...(suggestion.token.themePath && { themePath: suggestion.token.themePath }),
+            confidence: suggestion.confidence,
+            ...(suggestion.alpha !== undefined && { alpha: suggestion.alpha }),
+            ...(suggestion.rounding && { rounding: suggestion.rounding }),
+            ...(suggestion.components && {
+              components: suggestion.components.map(component => component.match?.token.cssVariable ?? null)
+            })
+          }
+        : null,
+      ...(textStyle && {
+        textStyle: {
+          token: textStyle.token.name,
+          cssVariable: textStyle.token.cssVariable,
+          confidence: textStyle.confidence
+        }
+      })
+    }));
+
+    return JSON.stringify({ summary: report.summary, findings }, null, 2) + '\n';
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Markdown summary reporter
+ */
+
+import { MatchType } from '../matchers/types.js';
+import {
+  AuditReport,
+  Reporter,
+  formatConfidence,
+  formatMatchedValue,
+  formatSuggestedToken,
+  formatTokenName
+} from './types.js';
+
+/**
+ * Reporter that writes a Markdown summary with per-category and per-finding tables
+ */
+export class MarkdownReporter implements Reporter {
+  /**
+   * Get the name of this reporter
+   */
+  getName(): string {
+    return 'markdown';
+  }
+
+  /**
+   * Format an audit report as Markdown
+   * @param report Audit report
+   * @returns Markdown document
+   */
+  format(report: AuditReport): string {
+    const { summary } = report;
+    const lines: string[] = [
+      '# Design Token Audit',
+      '',
+      `Found **${summary.totalFindings}** hardcoded value(s) in ` +
+        `**${summary.filesWithFindings}** of ${summary.filesScanned} file(s). ` +
+        `${summary.withSuggestion} have a suggested token.`,
+      ''
+    ];
+
+    if (summary.totalFindings === 0) {
+      return lines.join('\n');
+    }
+
+    lines.push('| Category | Findings |', '| --- | ---: |');
+    for (const [type, count] of Object.entries(summary.byType) as Array<[MatchType, number]>) {
+      if (count > 0) {
+        lines.push(`| ${type} | ${count} |`);
+      }
+    }
+
+    lines.push(
+      '',
+      '## Findings',
+      '',
+      '| File | Line | Category | Property | Value | Suggested token | Confidence |',
+      '| --- | ---: | --- | --- | --- | --- | ---: |'
+    );
+
+    for (const { filePath, match, suggestion, textStyle, fixable } of report.entries) {
+      // Typography values without a token of their own show the text style of their group
+      const shown = suggestion ?? textStyle;
+      const token = suggestion
+        ? `\`${formatSuggestedToken(suggestion)}\``
+        : textStyle && `\`${formatTokenName(textStyle.token)}\` (text style)`;
+      lines.push(`| ${[
+        escapeCell(filePath),
+        match.location.line,
+        match.type,
+        escapeCell(match.property),
+        `\`${escapeCell(formatMatchedValue(match))}\``,
+        (token || '-') + (fixable === false ? ' (not auto-fixable)' : ''),
+        shown ? formatConfidence(shown.confidence) : '-'
+      ].join(' | ')} |`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Escape text for a Markdown table cell
+ * @param text Cell text
+ * @returns Text with pipes escaped and newlines collapsed
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
@@ -0,0 +1,159 @@
+/**
+ * SARIF 2.1.0 reporter for code-scanning annotations
+ */
+
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { MatchType } from '../matchers/types.js';
+import { formatTokenMatch } from '../transformers/styleTransformer.js';
+import {
+  AuditReport,
+  Reporter,
+  formatConfidence,
+  formatMatchedValue,
+  formatSuggestedToken,
+  formatTextStyle,
+  formatTokenName,
+  getMatchEnd,
+  getThemeClass
+} from './types.js';
+
+/**
+ * SARIF rule for each match type
+ */
+const SARIF_RULES: Record<MatchType, { id: string; name: string; description: string }> = {
+  color: {
+    id: 'hardcoded-color',
+    name: 'HardcodedColor',
+    description: 'Color value should use a design token'
+  },
+  spacing: {
+    id: 'hardcoded-spacing',
+    name: 'HardcodedSpacing',
+    description: 'Spacing value should use a design token'
+  },
+  borderRadius: {
+    id: 'hardcoded-border-radius',
+    name: 'HardcodedBorderRadius',
+    description: 'Border radius value should use a design token'
+  },
+  shadow: {
+    id: 'hardcoded-shadow',
+    name: 'HardcodedShadow',
+    description: 'Shadow value should use a design token'
+  },
+  typography: {
+    id: 'hardcoded-typography',
+    name: 'HardcodedTypography',
+    description: 'Typography value should use a design token'
+  }
+};
+
+/**
+ * Reporter that writes the audit as a SARIF 2.1.0 log
+ * Findings with a suggested token include a fix that replaces the value.
+ */
+export class SarifReporter implements Reporter {
+  /**
+   * Get the name of this reporter
+   */
+  getName(): string {
+    return 'sarif';
+  }
+
+  /**
+   * Format an audit report as SARIF
+   * @param report Audit report
+   * @returns SARIF log as JSON
+   */
+  format(report: AuditReport): string {
+    const ruleTypes = Object.keys(SARIF_RULES) as MatchType[];
+
+    const results = report.entries.map(({ filePath, match, suggestion, textStyle }) => {
+      const rule = SARIF_RULES[match.type];
+      const artifactLocation = { uri: toUri(filePath) };
+      const region = {
+        startLine: match.location.line,
+        startColumn: match.location.column,
+        ...getMatchEnd(match)
+      };
+
+      const message = suggestion
+        ? `Hardcoded ${match.type} '${formatMatchedValue(match)}' in ${match.property}. ` +
+          `Use ${formatSuggestedToken(suggestion)} (${formatConfidence(suggestion.confidence)} confidence).`
+        : `Hardcoded ${match.type} '${formatMatchedValue(match)}' in ${match.property} has no matching design token.`;
+      // The text style replaces the whole group of typography values, so it is not a fix for this one
+      const note = textStyle ? ` Consider ${formatTextStyle(textStyle)} for the surrounding typography values.` : '';
+
+      // The region of a default theme class covers its key, which becomes an arbitrary value
+      const themeClass = getThemeClass(match);
+      const reference = suggestion && formatTokenMatch(suggestion, { separator: themeClass ? '_' : ' ', scope: match.scope });
+      const replacement = reference && themeClass ? `[${reference}]` : reference;
+
+      return {
+        ruleId: rule.id,
+        ruleIndex: ruleTypes.indexOf(match.type),
+        level: 'warning',
+        message: { text: message + note },
+        locations: [{ physicalLocation: { artifactLocation, region } }],
+        // Tokens that cannot be referenced where the value is get no fix
+        ...(suggestion && replacement && {
+          fixes: [{
+            description: { text: `Replace with ${replacement}` },
+            artifactChanges: [{
+              artifactLocation,
+              replacements: [{
+                deletedRegion: region,
+                insertedContent: { text: replacement }
+              }]
+            }]
+          }]
+        }),
+        ...((suggestion || textStyle) && {
+          properties: {
+            ...(suggestion && {
+              suggestedToken: formatTokenName(suggestion.token),
+              confidence: suggestion.confidence,
+              ...(suggestion.alpha !== undefined && { alpha: suggestion.alpha })
+            }),
+            ...(textStyle && { textStyle: formatTokenName(textStyle.token) })
+          }
+        })
+      };
+    });
+
+    const log = {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: 'token-transformer',
+            rules: ruleTypes.map(type => ({
+              id: SARIF_RULES[type].id,
+              name: SARIF_RULES[type].name,
+              shortDescription: { text: SARIF_RULES[type].description },
+              defaultConfiguration: { level: 'warning' }
+            }))
+          }
+        },
+        results
+      }]
+    };
+
+    return JSON.stringify(log, null, 2) + '\n';
+  }
+}
+
+/**
+ * Convert a file path to a SARIF artifact URI
+ * @param filePath File path
+ * @returns `file://` URI for absolute paths, otherwise a relative forward-slash URI without a leading `./`
+ */
+function toUri(filePath: string): string {
+  if (path.isAbsolute(filePath)) {
+    return pathToFileURL(filePath).href;
+  }
+
+  return encodeURI(filePath.replace(/\\/g, '/').replace(/^\.\//, ''));
+}
@@ -0,0 +1,44 @@
+/**
+ * Plain text reporter for terminal output
+ */
+
+import {
+  AuditReport,
+  Reporter,
+  formatConfidence,
+  formatMatchedValue,
+  formatSuggestedToken,
+  formatTextStyle
+} from './types.js';
+
+/**
+ * Reporter that writes one line per finding
+ */
+export class TextReporter implements Reporter {
+  /**
+   * Get the name of this reporter
+   */
+  getName(): string {
+    return 'text';
+  }
+
+  /**
+   * Format an audit report as text
+   * @param report Audit report
+   * @returns Text report
+   */
+  format(report: AuditReport): string {
+    const lines = report.entries.map(({ filePath, match, suggestion, textStyle, fixable }) => {
+      const hint = suggestion
+        ? ` -> ${formatSuggestedToken(suggestion)} (${formatConfidence(suggestion.confidence)})`
+        : '';
+      const note = (textStyle ? ` [${formatTextStyle(textStyle)}]` : '') + (fixable === false ? ' (not auto-fixable)' : '');
+      return `${filePath}:${match.location.line}:${match.location.column}  ${match.type}  ${match.property}: ${formatMatchedValue(match)}${hint}${note}`;
+    });
+
+    const { totalFindings, filesScanned } = report.summary;
+    lines.push('', `${totalFindings} hardcoded value(s) in ${filesScanned} file(s)`);
+
+    return lines.join('\n') + '\n';
+  }
+}
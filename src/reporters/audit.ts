@@ -0,0 +1,183 @@
+/**
+ * Audit that aggregates hardcoded values across files
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { analyzeComponent, excludeTokenClasses, getMatchersForFile, groupTypographyMatches } from '../core/analyzer.js';
+import { ModuleResolver } from '../core/moduleResolver.js';
+import { TokenRegistry } from '../core/TokenRegistry.js';
+import { TokenCategory, TokenMatch, TokenMatchOptions } from '../core/types.js';
+import { MatchResult } from '../matchers/types.js';
+import { ColorDistanceMetric } from '../utils/colorUtils.js';
+import { AuditEntry, AuditReport, Reporter } from './types.js';
+import { TextReporter } from './TextReporter.js';
+import { JsonReporter } from './JsonReporter.js';
+import { SarifReporter } from './SarifReporter.js';
+import { MarkdownReporter } from './MarkdownReporter.js';
+
+/**
+ * Supported report formats
+ */
+export type ReportFormat = 'text' | 'json' | 'sarif' | 'markdown';
+
+/**
+ * Create the reporter for a format
+ * @param format Report format
+ * @returns Reporter instance
+ */
+export function createReporter(format: ReportFormat): Reporter {
+  switch (format) {
+    case 'json':
+      return new JsonReporter();
+    case 'sarif':
+      return new SarifReporter();
+    case 'markdown':
+      return new MarkdownReporter();
+    default:
+      return new TextReporter();
+  }
+}
+
+/**
+ * Options for auditing files
+ */
+export interface AuditOptions {
+  /** Minimum confidence (0-1) for suggested tokens */
+  threshold?: number;
+
+  /** Limit the audit to specific token categories */
+  categories?: TokenCategory[];
+
+  /** Token mode to match against (e.g., "dark"), or "all" for every mode */
+  mode?: string;
+
+  /** Color distance metric for approximate color matches */
+  colorMetric?: ColorDistanceMetric;
+
+  /** Root font size in pixels for comparing px, rem and em lengths */
+  rootFontSize?: number;
+
+  /** Maximum relative difference (0-1) between a length and a near-matching token */
+  tolerance?: number;
+
+  /** Class-composing helpers whose arguments hold Tailwind classes */
+  classFunctions?: string[];
+
+  /** Also report classes from Tailwind's default palette and spacing scale */
+  defaultTheme?: boolean;
+
+  /** Project root for following style objects imported from sibling modules */
+  projectRoot?: string;
+}
+
+/**
+ * Find hardcoded values in files and suggest tokens for them
+ * @param files Files to audit
+ * @param registry Initialized token registry
+ * @param options Audit options
+ * @returns Audit report across all files
+ */
+export async function auditFiles(
+  files: string[],
+  registry: TokenRegistry,
+  options: AuditOptions = {}
+): Promise<AuditReport> {
+  const entries: AuditEntry[] = [];
+  const matchOptions: TokenMatchOptions = {
+    threshold: options.threshold,
+    mode: options.mode,
+    colorMetric: options.colorMetric,
+    rootFontSize: options.rootFontSize,
+    tolerance: options.tolerance
+  };
+
+  const moduleResolver = options.projectRoot ? new ModuleResolver(options.projectRoot) : undefined;
+
+  // Values in modules imported by several files, or also audited themselves, are reported once
+  const reported = new Map<string, AuditEntry>();
+
+  for (const filePath of files) {
+    const source = await fs.readFile(filePath, 'utf-8');
+    const matches = excludeTokenClasses(analyzeComponent(source, {
+      matchers: getMatchersForFile(filePath),
+      types: options.categories,
+      classFunctions: options.classFunctions,
+      defaultTheme: options.defaultTheme,
+      filePath,
+      moduleResolver
+    }), registry);
+
+    // Sibling typography values share one text-style note
+    const textStyles = new Map<MatchResult, TokenMatch>();
+    for (const group of groupTypographyMatches(matches)) {
+      const textStyle = registry.findTypographyMatch(group.values, matchOptions);
+      if (textStyle) {
+        group.matches.forEach(match => textStyles.set(match, textStyle));
+      }
+    }
+
+    for (const match of matches) {
+      const entryPath = match.filePath ? toEntryPath(match.filePath, filePath) : filePath;
+      const key = `${entryPath}:${match.location.start}:${match.location.end}`;
+
+      const existing = reported.get(key);
+
+      // `fix` only rewrites values in the file being fixed, not in the modules it imports
+      if (existing) {
+        if (!match.filePath) {
+          delete existing.fixable;
+        }
+        continue;
+      }
+
+      const entry: AuditEntry = {
+        filePath: entryPath,
+        match,
+        suggestion: registry.findBestMatch(match.value, match.type, matchOptions),
+        ...(textStyles.has(match) && { textStyle: textStyles.get(match) }),
+        ...(match.filePath && { fixable: false })
+      };
+      reported.set(key, entry);
+      entries.push(entry);
+    }
+  }
+
+  return createAuditReport(files, entries);
+}
+
+/**
+ * Get the path to report for a value defined in an imported module
+ * @param modulePath Absolute path of the module defining the value
+ * @param filePath Audited file that imports it
+ * @returns Module path, relative to the working directory unless the audited path is absolute
+ */
+function toEntryPath(modulePath: string, filePath: string): string {
+  return path.isAbsolute(filePath) ? modulePath : path.relative(process.cwd(), modulePath);
+}
+
+/**
+ * Aggregate audit entries into a report
+ * @param files Files that were scanned
+ * @param entries Findings across the files
+ * @returns Audit report with summary counts
+ */
+export function createAuditReport(files: string[], entries: AuditEntry[]): AuditReport {
+  const byType = { color: 0, spacing: 0, borderRadius: 0, shadow: 0, typography: 0 };
+
+  for (const entry of entries) {
+    byType[entry.match.type]++;
+  }
+
+  return {
+    files,
+    entries,
+    summary: {
+      filesScanned: files.length,
+      filesWithFindings: new Set(entries.map(entry => entry.filePath)).size,
+      totalFindings: entries.length,
+      withSuggestion: entries.filter(entry => entry.suggestion || entry.textStyle).length,
+      byType
+    }
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Export all reporters
+ */
+
+export * from './types.js';
+export * from './audit.js';
+export * from './TextReporter.js';
+export * from './JsonReporter.js';
+export * from './SarifReporter.js';
+export * from './MarkdownReporter.js';
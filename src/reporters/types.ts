@@ -0,0 +1,174 @@
+/**
+ * Types for the audit reporter system
+ */
+
+import { DesignToken, TokenMatch } from '../core/types.js';
+import { MatchResult, MatchType } from '../matchers/types.js';
+
+/**
+ * A hardcoded value found during an audit
+ */
+export interface AuditEntry {
+  /** File containing the value */
+  filePath: string;
+
+  /** Matcher result for the value */
+  match: MatchResult;
+
+  /** Suggested token from the registry, if one meets the threshold */
+  suggestion: TokenMatch | null;
+
+  /** False for values `fix` does not rewrite, such as those defined in imported modules */
+  fixable?: boolean;
+
+  /**
+   * Text style matching the typography values declared together with this one
+   * Reported as a note only, since it replaces the whole group rather than this value.
+   */
+  textStyle?: TokenMatch;
+}
+
+/**
+ * Aggregate counts for an audit
+ */
+export interface AuditSummary {
+  /** Number of files scanned */
+  filesScanned: number;
+
+  /** Number of files with at least one finding */
+  filesWithFindings: number;
+
+  /** Total number of findings */
+  totalFindings: number;
+
+  /** Number of findings with a suggested token or text style */
+  withSuggestion: number;
+
+  /** Number of findings by match type */
+  byType: Record<MatchType, number>;
+}
+
+/**
+ * Matches aggregated across files
+ */
+export interface AuditReport {
+  /** Files that were scanned */
+  files: string[];
+
+  /** Findings in file and source order */
+  entries: AuditEntry[];
+
+  /** Aggregate counts */
+  summary: AuditSummary;
+}
+
+/**
+ * Interface for report formatters
+ */
+export interface Reporter {
+  /**
+   * Format an audit report
+   * @param report Audit report
+   * @returns Report contents
+   */
+  format(report: AuditReport): string;
+
+  /**
+   * Get the name of the reporter
+   */
+  getName(): string;
+}
+
+/**
+ * Get the end position of a match from its start and value
+ * @param match Match result
+ * @returns 1-based end line and exclusive end column
+ */
+export function getMatchEnd(match: MatchResult): { endLine: number; endColumn: number } {
+  // Default theme classes are located by their key rather than their value
+  const lines = (getThemeClass(match) ? match.metadata!.themeKey as string : match.value).split('\n');
+
+  if (lines.length === 1) {
+    return {
+      endLine: match.location.line,
+      endColumn: match.location.column + lines[0].length
+    };
+  }
+
+  return {
+    endLine: match.location.line + lines.length - 1,
+    endColumn: lines[lines.length - 1].length + 1
+  };
+}
+
+/**
+ * Format a confidence score as a percentage
+ * @param confidence Confidence score (0-1)
+ * @returns Percentage string (e.g., "95%")
+ */
+export function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}%`;
+}
+
+/**
+ * Format the suggested token, including any opacity to apply to it
+ * @param suggestion Suggested token match
+ * @returns Token variable (e.g., "--color-primary" or "--color-primary at 50%"),
+ * or one entry per part of a shorthand (e.g., "--spacing-sm auto")
+ */
+export function formatSuggestedToken(suggestion: TokenMatch): string {
+  const { token, alpha, components } = suggestion;
+
+  if (components) {
+    return components
+      .map(component => component.match ? formatSuggestedToken(component.match) : component.value)
+      .join(' ');
+  }
+
+  const name = formatTokenName(token);
+  return alpha === undefined ? name : `${name} at ${formatConfidence(alpha)}`;
+}
+
+/**
+ * Format the text style suggested for a group of typography values
+ * @param textStyle Text style match
+ * @returns Note (e.g., "text style --text-h1 (100%)")
+ */
+export function formatTextStyle(textStyle: TokenMatch): string {
+  return `text style ${formatTokenName(textStyle.token)} (${formatConfidence(textStyle.confidence)})`;
+}
+
+/**
+ * Get the name a token is reported under
+ * @param token Design token
+ * @returns CSS variable, or the `theme()` path or class of a token from a Tailwind config
+ * (e.g., "--color-primary" or "theme(colors.primary)")
+ */
+export function formatTokenName(token: DesignToken): string {
+  if (token.cssVariable) {
+    return token.cssVariable;
+  }
+
+  return token.themePath ? `theme(${token.themePath})` : token.tailwindClass ?? token.name;
+}
+
+/**
+ * Get the class of a match from Tailwind's default theme
+ * @param match Match result
+ * @returns Class as written (e.g., "hover:bg-blue-500"), or undefined for other matches
+ */
+export function getThemeClass(match: MatchResult): string | undefined {
+  return match.scope === 'className' && match.metadata?.themeKey !== undefined
+    ? match.path?.[match.path.length - 1]
+    : undefined;
+}
+
+/**
+ * Format the matched value, naming the class it came from for default theme classes
+ * @param match Match result
+ * @returns Value (e.g., "#3b82f6"), or class and value (e.g., "bg-blue-500 (#3b82f6)")
+ */
+export function formatMatchedValue(match: MatchResult): string {
+  const themeClass = getThemeClass(match);
+  return themeClass ? `${themeClass} (${match.value})` : match.value;
+}
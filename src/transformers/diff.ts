@@ -0,0 +1,237 @@
+/**
+ * Unified diff generation for dry-run transformations
+ */
+
+import { TransformationResult } from '../core/types.js';
+
+/**
+ * Options for diff generation
+ */
+export interface UnifiedDiffOptions {
+  /** Number of unchanged lines to show around each change (default 3) */
+  contextLines?: number;
+}
+
+/**
+ * A group of transformations that replace the same range of lines
+ */
+interface ChangeBlock {
+  /** First affected line (0-based) */
+  startLine: number;
+
+  /** Last affected line (0-based, inclusive) */
+  endLine: number;
+
+  /** Transformations inside the block */
+  transformations: TransformationResult[];
+}
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Create a unified diff for the transformations applied to a file
+ * The output is valid input for `git apply`. Each hunk header lists the
+ * replaced literals with their token and confidence.
+ * @param filePath Path of the file, relative to the repository root
+ * @param source Original source code
+ * @param transformations Transformations with match locations
+ * @param options Diff options
+ * @returns Unified diff, or an empty string if nothing changes
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  source: string,
+  transformations: TransformationResult[],
+  options: UnifiedDiffOptions = {}
+): string {
+  const contextLines = options.contextLines ?? 3;
+  const located = transformations
+    .filter(transformation => transformation.match && transformation.original !== transformation.transformed)
+    .sort((a, b) => a.match!.location.start - b.match!.location.start);
+
+  if (located.length === 0) {
+    return '';
+  }
+
+  const hasTrailingNewline = source.endsWith('\n');
+  const lines = source.split('\n');
+  if (hasTrailingNewline) {
+    lines.pop();
+  }
+
+  // Offset of the first character of each line
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+
+  const blocks = groupIntoBlocks(located, lineStarts);
+  const hunks = groupIntoHunks(blocks, contextLines);
+  const normalizedPath = normalizeDiffPath(filePath);
+
+  const output: string[] = [
+    `--- a/${normalizedPath}`,
+    `+++ b/${normalizedPath}`
+  ];
+  let lineDelta = 0;
+
+  for (const hunk of hunks) {
+    const first = Math.max(0, hunk[0].startLine - contextLines);
+    const last = Math.min(lines.length - 1, hunk[hunk.length - 1].endLine + contextLines);
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let lineIndex = first;
+
+    const pushLine = (prefix: string, text: string, isLastLine: boolean) => {
+      body.push(prefix + text);
+      if (isLastLine && !hasTrailingNewline) {
+        body.push(NO_NEWLINE_MARKER);
+      }
+    };
+
+    for (const block of hunk) {
+      // Context before the block
+      for (; lineIndex < block.startLine; lineIndex++) {
+        pushLine(' ', lines[lineIndex], lineIndex === lines.length - 1);
+        oldCount++;
+        newCount++;
+      }
+
+      const includesLastLine = block.endLine === lines.length - 1;
+      const oldLines = lines.slice(block.startLine, block.endLine + 1);
+      const newLines = applyBlock(block, lines, lineStarts).split('\n');
+
+      oldLines.forEach((line, index) => pushLine('-', line, includesLastLine && index === oldLines.length - 1));
+      newLines.forEach((line, index) => pushLine('+', line, includesLastLine && index === newLines.length - 1));
+
+      oldCount += oldLines.length;
+      newCount += newLines.length;
+      lineIndex = block.endLine + 1;
+    }
+
+    // Context after the last block
+    for (; lineIndex <= last; lineIndex++) {
+      pushLine(' ', lines[lineIndex], lineIndex === lines.length - 1);
+      oldCount++;
+      newCount++;
+    }
+
+    const summary = hunk
+      .flatMap(block => block.transformations)
+      .map(transformation =>
+        `${transformation.original} -> ${transformation.transformed} (${Math.round(transformation.confidence * 100)}%)`
+      )
+      .join(', ');
+
+    output.push(`@@ -${first + 1},${oldCount} +${first + 1 + lineDelta},${newCount} @@ ${summary}`);
+    output.push(...body);
+    lineDelta += newCount - oldCount;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Merge transformations that touch the same lines into blocks
+ * @param transformations Transformations sorted by location
+ * @param lineStarts Offset of the first character of each line
+ * @returns Change blocks in source order
+ */
+function groupIntoBlocks(transformations: TransformationResult[], lineStarts: number[]): ChangeBlock[] {
+  const blocks: ChangeBlock[] = [];
+
+  for (const transformation of transformations) {
+    const { start, end } = transformation.match!.location;
+    const startLine = findLineIndex(lineStarts, start);
+    const endLine = findLineIndex(lineStarts, Math.max(start, end - 1));
+    const previous = blocks[blocks.length - 1];
+
+    if (previous && startLine <= previous.endLine) {
+      previous.endLine = Math.max(previous.endLine, endLine);
+      previous.transformations.push(transformation);
+    } else {
+      blocks.push({ startLine, endLine, transformations: [transformation] });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Group change blocks whose context overlaps into hunks
+ * @param blocks Change blocks in source order
+ * @param contextLines Number of context lines
+ * @returns Hunks as lists of blocks
+ */
+function groupIntoHunks(blocks: ChangeBlock[], contextLines: number): ChangeBlock[][] {
+  const hunks: ChangeBlock[][] = [];
+
+  for (const block of blocks) {
+    const currentHunk = hunks[hunks.length - 1];
+    const previous = currentHunk?.[currentHunk.length - 1];
+
+    // Merge when the context around both blocks would touch or overlap
+    if (previous && block.startLine - previous.endLine <= 2 * contextLines + 1) {
+      currentHunk.push(block);
+    } else {
+      hunks.push([block]);
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Apply a block's transformations to its lines
+ * @param block Change block
+ * @param lines Source lines
+ * @param lineStarts Offset of the first character of each line
+ * @returns Replacement text for the block's lines
+ */
+function applyBlock(block: ChangeBlock, lines: string[], lineStarts: number[]): string {
+  const blockStart = lineStarts[block.startLine];
+  let text = lines.slice(block.startLine, block.endLine + 1).join('\n');
+
+  // Apply from the end so earlier offsets stay valid
+  for (const transformation of [...block.transformations].reverse()) {
+    const start = transformation.match!.location.start - blockStart;
+    const end = transformation.match!.location.end - blockStart;
+    text = text.substring(0, start) + transformation.transformed + text.substring(end);
+  }
+
+  return text;
+}
+
+/**
+ * Find the line containing an offset
+ * @param lineStarts Offset of the first character of each line
+ * @param offset Character offset
+ * @returns 0-based line index
+ */
+function findLineIndex(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Normalize a file path for diff headers
+ * @param filePath File path
+ * @returns Forward-slash path without a leading `./` or `/`
+ */
+function normalizeDiffPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\/+/, '');
+}
@@ -0,0 +1,6 @@
+/**
+ * Export all transformers
+ */
+
+export * from './styleTransformer.js';
+export * from './diff.js';
@@ -0,0 +1,409 @@
+/**
+ * Transformer that replaces hardcoded style values with token references
+ */
+
+import { groupTypographyMatches } from '../core/analyzer.js';
+import { TokenRegistry } from '../core/TokenRegistry.js';
+import { DesignToken, TokenMatch, TokenMatchOptions, TransformationResult } from '../core/types.js';
+import type { TailwindClassModifiers } from '../matchers/TailwindClassMatcher.js';
+import { MatchResult, MatchScope, createMatchLocation } from '../matchers/types.js';
+
+/**
+ * Output of a style transformation
+ */
+export interface StyleTransformOutput {
+  /** Transformed source code */
+  code: string;
+
+  /** Transformations that were applied, in source order */
+  transformations: TransformationResult[];
+}
+
+/**
+ * CSS syntax for a token reference with an opacity
+ * - `color-mix`: `color-mix(in srgb, var(--color-primary) 50%, transparent)`
+ * - `relative-color`: `rgb(from var(--color-primary) r g b / 50%)`
+ */
+export type AlphaFormat = 'color-mix' | 'relative-color';
+
+/**
+ * Options for style transformation
+ */
+export interface StyleTransformOptions extends TokenMatchOptions {
+  /** CSS syntax for token references that need an opacity (defaults to "color-mix") */
+  alphaFormat?: AlphaFormat;
+}
+
+/**
+ * Replace matched style values with references to design tokens
+ * @param source Original source code
+ * @param matches Match results found in the source
+ * @param registry Initialized token registry
+ * @param options Token matching and output options
+ * @returns Transformed code and the list of applied transformations
+ */
+export function transformStyles(
+  source: string,
+  matches: MatchResult[],
+  registry: TokenRegistry,
+  options: StyleTransformOptions = {}
+): StyleTransformOutput {
+  const transformations: TransformationResult[] = [];
+
+  // Values defined in other modules (e.g., imported style objects) are not part of this source
+  const sourceMatches = matches.filter(match => !match.filePath);
+  const typographyTransformations = createTypographyTransformations(source, sourceMatches, registry, options);
+
+  // Process matches in source order so overlapping ranges can be skipped
+  const sortedMatches = [...sourceMatches].sort((a, b) => a.location.start - b.location.start);
+  let lastEnd = -1;
+
+  for (const match of sortedMatches) {
+    // Skip matches that overlap a range that is already being replaced
+    if (match.location.start < lastEnd) {
+      continue;
+    }
+
+    // Skip categories excluded by the options
+    if (options.categories && !options.categories.includes(match.type)) {
+      continue;
+    }
+
+    const typographyTransformation = typographyTransformations.get(match);
+    if (typographyTransformation) {
+      transformations.push(typographyTransformation);
+      lastEnd = typographyTransformation.match!.location.end;
+      continue;
+    }
+
+    const tokenMatch = registry.findBestMatch(match.value, match.type, options);
+
+    if (!tokenMatch || tokenMatch.confidence < (options.threshold ?? 0)) {
+      continue;
+    }
+
+    const transformation = createTransformation(source, match, tokenMatch, options);
+
+    // Skip tokens that cannot be referenced from this kind of source
+    if (!transformation) {
+      continue;
+    }
+
+    transformations.push(transformation);
+
+    lastEnd = transformation.match!.location.end;
+  }
+
+  return {
+    code: applyTransformations(source, transformations),
+    transformations
+  };
+}
+
+/**
+ * Create the transformation for a matched value
+ * Tailwind arbitrary value classes are rewritten to the token's utility class
+ * with the same prefix (e.g., `mt-[16px]` becomes `mt-4`); other values are
+ * replaced by a token reference.
+ * @param source Original source code
+ * @param match Matched style value
+ * @param tokenMatch Token that matched the value
+ * @param options Output options
+ * @returns Transformation to apply, or null if the token cannot be referenced where the value is
+ */
+function createTransformation(
+  source: string,
+  match: MatchResult,
+  tokenMatch: TokenMatch,
+  options: StyleTransformOptions
+): TransformationResult | null {
+  const { token, confidence } = tokenMatch;
+
+  if (match.scope === 'className' && !tokenMatch.components) {
+    const transformation = createTailwindClassTransformation(source, match, tokenMatch);
+    if (transformation) {
+      return transformation;
+    }
+  }
+
+  const transformed = formatTokenMatch(tokenMatch, {
+    alphaFormat: options.alphaFormat,
+    // Tailwind arbitrary values use underscores for spaces
+    separator: match.scope === 'className' ? '_' : ' ',
+    scope: match.scope
+  });
+
+  if (transformed === null) {
+    return null;
+  }
+
+  return {
+    original: match.value,
+    transformed,
+    token,
+    confidence,
+    match
+  };
+}
+
+/**
+ * Replace a whole arbitrary value class with the token's utility class
+ * (e.g., `border-[#eee]` becomes `border-gray-100` and `bg-[rgba(37,201,208,0.5)]`
+ * becomes `bg-primary/50`)
+ * Tokens without a Tailwind theme key only get a class of their own when an
+ * opacity modifier is needed (`bg-[var(--color-primary)]/50`) or the class
+ * came from Tailwind's default theme (`bg-blue-500` becomes `bg-[var(--brand)]`).
+ * @param source Original source code
+ * @param match Tailwind class match
+ * @param tokenMatch Token that matched the value
+ * @returns Transformation covering the whole class, or null to replace only the bracketed value
+ */
+function createTailwindClassTransformation(
+  source: string,
+  match: MatchResult,
+  tokenMatch: TokenMatch
+): TransformationResult | null {
+  const { token, confidence, alpha } = tokenMatch;
+  const range = getClassRange(source, match);
+  const modifiers = getClassModifiers(match);
+
+  // Default theme classes have no bracketed value to replace on its own
+  if (!range || (token.tailwindKey === undefined && alpha === undefined && !modifiers?.themeKey)) {
+    return null;
+  }
+
+  const { className: arbitraryClass, start, end } = range;
+  const prefix = modifiers?.utility ?? arbitraryClass.substring(0, arbitraryClass.indexOf('['));
+  const reference = formatTokenReference(token, { scope: 'className' });
+
+  if (token.tailwindKey === undefined && reference === null) {
+    return null;
+  }
+
+  const utility = token.tailwindKey === undefined
+    ? `${prefix}[${reference}]`
+    : token.tailwindClasses?.[prefix.slice(0, -1)] ?? formatUtilityClass(prefix, token.tailwindKey);
+
+  return {
+    original: arbitraryClass,
+    transformed: applyClassModifiers(
+      arbitraryClass,
+      match,
+      alpha === undefined ? utility : `${utility}/${Math.round(alpha * 100)}`
+    ),
+    token,
+    confidence,
+    match: { ...match, location: createMatchLocation(source, start, end) }
+  };
+}
+
+/**
+ * Join a utility prefix and theme key into a class name
+ * @param prefix Utility prefix including the trailing dash (e.g., "mt-")
+ * @param key Theme key (e.g., "4", or "DEFAULT" for the bare utility)
+ * @returns Class name (e.g., "mt-4" or "rounded")
+ */
+function formatUtilityClass(prefix: string, key: string): string {
+  return key === 'DEFAULT' ? prefix.replace(/-$/, '') : prefix + key;
+}
+
+/**
+ * Replace sibling typography classes with a single text-style class
+ * (e.g., `text-[20px] leading-[28px]` becomes `text-xl`)
+ * The first class of a group is replaced and the others are removed along with
+ * the whitespace before them. Style objects are left to per-value matching,
+ * since a text style cannot be applied to them as a single value.
+ * @param source Original source code
+ * @param matches Match results found in the source
+ * @param registry Initialized token registry
+ * @param options Token matching options
+ * @returns Transformations keyed by the match they replace
+ */
+function createTypographyTransformations(
+  source: string,
+  matches: MatchResult[],
+  registry: TokenRegistry,
+  options: StyleTransformOptions
+): Map<MatchResult, TransformationResult> {
+  const transformations = new Map<MatchResult, TransformationResult>();
+
+  if (options.categories && !options.categories.includes('typography')) {
+    return transformations;
+  }
+
+  for (const group of groupTypographyMatches(matches)) {
+    if (group.matches[0].scope !== 'className') {
+      continue;
+    }
+
+    const tokenMatch = registry.findTypographyMatch(group.values, options);
+    const ranges = group.matches.map(match => getClassRange(source, match));
+
+    if (!tokenMatch?.token.tailwindClass || ranges.some(range => !range)) {
+      continue;
+    }
+
+    group.matches.forEach((match, index) => {
+      const { start: classStart, end } = ranges[index]!;
+      let start = classStart;
+
+      if (index > 0) {
+        while (start > 0 && /[ \t]/.test(source[start - 1])) {
+          start--;
+        }
+      }
+
+      transformations.set(match, {
+        original: source.substring(start, end),
+        transformed: index === 0 ? applyClassModifiers(ranges[index]!.className, match, tokenMatch.token.tailwindClass!) : '',
+        token: tokenMatch.token,
+        confidence: tokenMatch.confidence,
+        match: { ...match, location: createMatchLocation(source, start, end) }
+      });
+    });
+  }
+
+  return transformations;
+}
+
+/**
+ * Locate the whole arbitrary value class of a Tailwind class match
+ * @param source Original source code
+ * @param match Tailwind class match, whose location covers the bracketed value
+ * @returns Class name as written (including variants and modifiers) and its offsets,
+ * or null if the class cannot be located
+ */
+function getClassRange(source: string, match: MatchResult): { className: string; start: number; end: number } | null {
+  const className = match.path?.[match.path.length - 1] ?? '';
+  // Default theme classes are located by their key; arbitrary values may follow
+  // a type hint inside the brackets (e.g., `text-[length:14px]`)
+  const written = getClassModifiers(match)?.themeKey ?? `${match.value}]`;
+  const valueIndex = className.lastIndexOf(written);
+  const start = match.location.start - valueIndex;
+  const end = start + className.length;
+
+  if (valueIndex <= 0 || source.substring(start, end) !== className) {
+    return null;
+  }
+
+  return { className, start, end };
+}
+
+/**
+ * Get the variants and modifiers the Tailwind class matcher recorded for a match
+ * @param match Tailwind class match
+ * @returns Class modifiers, or undefined for matches from other matchers
+ */
+function getClassModifiers(match: MatchResult): TailwindClassModifiers | undefined {
+  return match.scope === 'className' ? match.metadata as TailwindClassModifiers | undefined : undefined;
+}
+
+/**
+ * Apply the variants and modifiers of an arbitrary value class to its replacement
+ * (e.g., `md:hover:!-mt-[8px]` becomes `md:hover:!-mt-2`)
+ * @param className Class as written
+ * @param match Tailwind class match
+ * @param utility Replacement utility class
+ * @returns Replacement class with the same variants, important and negative modifiers
+ */
+function applyClassModifiers(className: string, match: MatchResult, utility: string): string {
+  const modifiers = getClassModifiers(match);
+
+  if (!modifiers) {
+    return utility;
+  }
+
+  // Tailwind v4 marks important classes with a trailing `!`; keep whichever form was used
+  const importantSuffix = modifiers.important && className.endsWith('!');
+  const variants = modifiers.variants.map(variant => `${variant}:`).join('');
+
+  return variants +
+    (modifiers.important && !importantSuffix ? '!' : '') +
+    (modifiers.negative ? '-' : '') +
+    utility +
+    (importantSuffix ? '!' : '');
+}
+
+/**
+ * Splice transformations into the source code
+ * @param source Original source code
+ * @param transformations Transformations with match locations
+ * @returns Source code with all replacements applied
+ */
+export function applyTransformations(source: string, transformations: TransformationResult[]): string {
+  let code = source;
+
+  // Apply from the end of the source so earlier locations stay valid
+  const ordered = transformations
+    .filter(transformation => transformation.match)
+    .sort((a, b) => b.match!.location.start - a.match!.location.start);
+
+  for (const transformation of ordered) {
+    const { start, end } = transformation.match!.location;
+    code = code.substring(0, start) + transformation.transformed + code.substring(end);
+  }
+
+  return code;
+}
+
+/**
+ * Format the replacement for a token match
+ * Shorthand matches become a list of token references with unmatched parts kept as written
+ * (e.g., `var(--spacing-sm) auto`).
+ * @param tokenMatch Token match
+ * @param options CSS syntax for opacities, the separator between shorthand parts and
+ * the scope of the replaced value
+ * @returns CSS value referencing the matched tokens, or null if a token cannot be referenced in the scope
+ */
+export function formatTokenMatch(
+  tokenMatch: TokenMatch,
+  options: { alphaFormat?: AlphaFormat; separator?: string; scope?: MatchScope } = {}
+): string | null {
+  if (tokenMatch.components) {
+    const parts = tokenMatch.components
+      .map(component => component.match ? formatTokenMatch(component.match, options) : component.value);
+    return parts.includes(null) ? null : parts.join(options.separator ?? ' ');
+  }
+
+  return formatTokenReference(tokenMatch.token, {
+    alpha: tokenMatch.alpha,
+    alphaFormat: options.alphaFormat,
+    scope: options.scope
+  });
+}
+
+/**
+ * Format a CSS reference to a design token
+ * Tokens from a Tailwind config have no CSS variable; stylesheets reference
+ * them with `theme()`, other sources cannot reference them at all.
+ * @param token Design token to reference
+ * @param options Opacity to apply, the CSS syntax to apply it with and the scope of the replaced value
+ * @returns CSS expression (e.g., `var(--color-primary)` or `theme(colors.primary)`), or null
+ * if the token cannot be referenced in the scope
+ */
+export function formatTokenReference(
+  token: DesignToken,
+  options: { alpha?: number; alphaFormat?: AlphaFormat; scope?: MatchScope } = {}
+): string | null {
+  if (!token.cssVariable) {
+    if (!token.themePath || options.scope !== 'stylesheet') {
+      return null;
+    }
+
+    return options.alpha === undefined
+      ? `theme(${token.themePath})`
+      : `theme(${token.themePath} / ${Math.round(options.alpha * 100)}%)`;
+  }
+
+  const reference = `var(${token.cssVariable})`;
+
+  if (options.alpha === undefined) {
+    return reference;
+  }
+
+  const percentage = `${Math.round(options.alpha * 100)}%`;
+
+  return options.alphaFormat === 'relative-color'
+    ? `rgb(from ${reference} r g b / ${percentage})`
+    : `color-mix(in srgb, ${reference} ${percentage}, transparent)`;
+}
@@ -2,43 +2,43 @@
  * Utility functions for color format conversions and comparison
  */
 
+import { NAMED_COLORS } from './namedColors.js';
+
 // Type definitions
 type RGB = { r: number; g: number; b: number; a?: number };
 type HSL = { h: number; s: number; l: number; a?: number };
 type OKLCH = { l: number; c: number; h: number; a?: number };
+type Lab = { l: number; a: number; b: number };
+type Vector3 = [number, number, number];
 
 /**
- * Parse a color string into an object with all color formats
- * @param colorStr The color string to parse (hex, rgb, rgba, hsl, hsla, oklch)
- * @returns Object with various color format representations
+ * A color parsed into the formats used for comparison
  */
-export function parseColor(colorStr: string): { 
+type ParsedColor = {
   hex: string;
   rgb: RGB;
   hsl?: HSL;
   oklch?: OKLCH;
-} {
-  // Remove all whitespace
-  const cleanedStr = colorStr.replace(/\s+/g, '');
-  
-  // Check for OKLCH format (common in modern design systems)
-  if (cleanedStr.startsWith('oklch(')) {
-    return parseOklchColor(cleanedStr);
-  }
+};
 
-  // Check for hex format
-  if (cleanedStr.startsWith('#')) {
-    return parseHexColor(cleanedStr);
-  }
-  
-  // Check for rgb/rgba format
-  if (cleanedStr.startsWith('rgb(') || cleanedStr.startsWith('rgba(')) {
-    return parseRgbColor(cleanedStr);
-  }
+/**
+ * Color functions understood by the parser
+ */
+const COLOR_FUNCTIONS = ['rgb', 'rgba', 'hsl', 'hsla', 'hwb', 'lab', 'lch', 'oklab', 'oklch', 'color'];
+
+/**
+ * Parse a color string into an object with all color formats
+ * Supports hex, named colors, `rgb()`, `hsl()`, `hwb()`, `lab()`, `lch()`,
+ * `oklab()`, `oklch()` and `color()` in both legacy (comma) and modern
+ * (space and slash) syntax. Colors outside the sRGB gamut are gamut mapped.
+ * @param colorStr The color string to parse
+ * @returns Object with various color format representations
+ */
+export function parseColor(colorStr: string): ParsedColor {
+  const color = parseColorValue(colorStr);
   
-  // Check for hsl/hsla format
-  if (cleanedStr.startsWith('hsl(') || cleanedStr.startsWith('hsla(')) {
-    return parseHslColor(cleanedStr);
+  if (color) {
+    return color;
   }
   
   // Default fallback - parse as black
@@ -50,115 +50,59 @@ export function parseColor(colorStr: string): {
 }
 
 /**
- * Parse OKLCH color format
- * Note: This uses a simplified conversion since full OKLCH conversion is complex
- * For production use, consider using a color library for accurate conversions
- * @param oklchStr OKLCH color string (e.g., "oklch(70% 0.12 200)")
+ * Check if a string is a color the parser understands
+ * @param value CSS value to check
+ * @returns True for hex, named and functional colors with valid components
  */
-function parseOklchColor(oklchStr: string): { 
-  hex: string;
-  rgb: RGB;
-  hsl?: HSL;
-  oklch: OKLCH;
-} {
-  // Extract OKLCH components
-  const match = oklchStr.match(/oklch\(([^)]+)\)/);
-  if (!match) {
-    throw new Error(`Invalid OKLCH color: ${oklchStr}`);
+export function isColorString(value: string): boolean {
+  try {
+    return parseColorValue(value) !== null;
+  } catch (error) {
+    return false;
   }
-  
-  const parts = match[1].split(/\s+|,\s*/).filter(Boolean);
-  
-  // Parse lightness (removing % if present)
-  const l = parseFloat(parts[0].replace('%', '')) / (parts[0].includes('%') ? 100 : 1);
-  
-  // Parse chroma and hue
-  const c = parseFloat(parts[1]);
-  const h = parseFloat(parts[2]);
-  
-  // Parse alpha if present
-  const a = parts.length >= 4 ? parseFloat(parts[3]) : undefined;
-  
-  // Store the OKLCH values
-  const oklch: OKLCH = { l, c, h, a };
-  
-  // Convert to RGB (simplified approximation)
-  // This is a very simplified conversion and won't be accurate
-  // In production, use a proper color library for OKLCH conversions
-  const rgb = approximateOklchToRgb(oklch);
-  
-  // Convert RGB to hex
-  const hex = rgbToHex(rgb);
-  
-  // Convert RGB to HSL
-  const hsl = rgbToHsl(rgb);
-  
-  return { hex, rgb, hsl, oklch };
 }
 
 /**
- * Very simplified approximation of OKLCH to RGB conversion
- * This is NOT accurate and should be replaced with a proper color library in production
+ * Parse a color string without falling back to black
+ * @param colorStr The color string to parse
+ * @returns Parsed color, or null if the format is not recognized
+ * @throws Error when a recognized format has invalid components
  */
-function approximateOklchToRgb(oklch: OKLCH): RGB {
-  // This is a placeholder implementation
-  // For real conversion, use a proper color library
+function parseColorValue(colorStr: string): ParsedColor | null {
+  const value = colorStr.trim();
+  const lowerValue = value.toLowerCase();
   
-  // Lightness ranges from 0 to 1, where 0 is black and 1 is white
-  const l = Math.max(0, Math.min(1, oklch.l));
-  
-  // Chroma is color intensity
-  const c = Math.max(0, Math.min(0.4, oklch.c));
-  
-  // Hue is in degrees (0-360)
-  const h = oklch.h % 360;
-  
-  // Extremely simplified conversion that's not accurate
-  // Just to have something to preview with
-  let r, g, b;
+  if (/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)) {
+    return parseHexColor(value);
+  }
   
-  // Simplified conversion based on hue
-  const hueSection = Math.floor(h / 60);
-  const hueRemainder = (h % 60) / 60;
+  if (NAMED_COLORS[lowerValue]) {
+    return parseHexColor(NAMED_COLORS[lowerValue]);
+  }
   
-  const colorValue = l * (1 + c * 2 - 1);
-  const min = l * (1 - c);
-  const mid = l * (1 - c * (1 - hueRemainder));
-  const max = l * (1 - c * hueRemainder);
+  if (lowerValue === 'transparent') {
+    return createParsedColor([0, 0, 0], 0);
+  }
   
-  switch (hueSection % 6) {
-    case 0: r = colorValue; g = mid; b = min; break;
-    case 1: r = max; g = colorValue; b = min; break;
-    case 2: r = min; g = colorValue; b = mid; break;
-    case 3: r = min; g = max; b = colorValue; break;
-    case 4: r = mid; g = min; b = colorValue; break;
-    case 5: r = colorValue; g = min; b = max; break;
-    default: r = l; g = l; b = l;
+  const functionMatch = /^([a-z]+)\(([^()]*)\)$/.exec(lowerValue);
+  if (functionMatch && COLOR_FUNCTIONS.includes(functionMatch[1])) {
+    return parseColorFunction(functionMatch[1], functionMatch[2]);
   }
   
-  return {
-    r: Math.max(0, Math.min(255, Math.round(r * 255))),
-    g: Math.max(0, Math.min(255, Math.round(g * 255))),
-    b: Math.max(0, Math.min(255, Math.round(b * 255))),
-    a: oklch.a
-  };
+  return null;
 }
 
 /**
  * Parse a hex color string
- * @param hexStr Hex color string (e.g., "#FF5500" or "#F50")
+ * @param hexStr Hex color string (e.g., "#FF5500", "#F50" or "#F508")
  */
-function parseHexColor(hexStr: string): { 
-  hex: string;
-  rgb: RGB;
-  hsl: HSL;
-} {
+function parseHexColor(hexStr: string): ParsedColor {
   // Normalize hex string
   let hex = hexStr.replace('#', '');
   
-  // Convert shorthand (#RGB) to full form (#RRGGBB)
-  if (hex.length === 3) {
-    hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
+  // Convert shorthand (#RGB, #RGBA) to full form (#RRGGBB, #RRGGBBAA)
+  if (hex.length === 3 || hex.length === 4) {
+    hex = hex.split('').map(digit => digit + digit).join('');
   }
   
   // Parse RGB values
@@ -173,74 +117,482 @@ function parseHexColor(hexStr: string): {
   }
   
   const rgb: RGB = { r, g, b, a };
-  const hsl = rgbToHsl(rgb);
   
   return {
     hex: '#' + hex,
     rgb,
-    hsl
+    hsl: rgbToHsl(rgb),
+    oklch: rgbToOklch(rgb)
   };
 }
 
 /**
- * Parse RGB/RGBA color string
- * @param rgbStr RGB/RGBA color string (e.g., "rgb(255, 0, 0)" or "rgba(255, 0, 0, 0.5)")
+ * Parse the arguments of a color function
+ * @param name Function name (e.g., "oklch")
+ * @param args Text between the parentheses
+ * @returns Parsed color
+ * @throws Error when the arguments are invalid
  */
-function parseRgbColor(rgbStr: string): { 
-  hex: string;
-  rgb: RGB;
-  hsl: HSL;
-} {
-  // Extract RGB components
-  const isRgba = rgbStr.startsWith('rgba(');
-  const values = rgbStr
-    .replace(isRgba ? 'rgba(' : 'rgb(', '')
-    .replace(')', '')
-    .split(',')
-    .map(val => val.trim());
-  
-  const r = parseInt(values[0], 10);
-  const g = parseInt(values[1], 10);
-  const b = parseInt(values[2], 10);
-  const a = isRgba ? parseFloat(values[3]) : undefined;
+function parseColorFunction(name: string, args: string): ParsedColor {
+  const { components, alpha } = splitComponents(args);
   
-  const rgb: RGB = { r, g, b, a };
-  const hex = rgbToHex(rgb);
-  const hsl = rgbToHsl(rgb);
+  // color() names its color space before the channels
+  const colorSpace = name === 'color' ? components.shift() : undefined;
+  
+  if (components.length !== 3) {
+    throw new Error(`Invalid color: ${name}(${args})`);
+  }
+  
+  const [c1, c2, c3] = components;
   
-  return { hex, rgb, hsl };
+  switch (name) {
+    case 'rgb':
+    case 'rgba':
+      return createParsedColor(
+        [c1, c2, c3].map(channel => parseNumber(channel, 255) / 255) as Vector3,
+        alpha
+      );
+    
+    case 'hsl':
+    case 'hsla':
+      return createParsedColor(
+        hslToSrgb(parseAngle(c1), parseNumber(c2, 100) / 100, parseNumber(c3, 100) / 100),
+        alpha
+      );
+    
+    case 'hwb':
+      return createParsedColor(
+        hwbToSrgb(parseAngle(c1), parseNumber(c2, 100) / 100, parseNumber(c3, 100) / 100),
+        alpha
+      );
+    
+    case 'lab':
+      return createParsedColorFromLinear(
+        labToLinearSrgb([parseNumber(c1, 100), parseNumber(c2, 125), parseNumber(c3, 125)]),
+        alpha
+      );
+    
+    case 'lch': {
+      const [a, b] = polarToCartesian(parseNumber(c2, 150), parseAngle(c3));
+      return createParsedColorFromLinear(labToLinearSrgb([parseNumber(c1, 100), a, b]), alpha);
+    }
+    
+    case 'oklab':
+      return createParsedColorFromLinear(
+        oklabToLinearSrgb([parseNumber(c1, 1), parseNumber(c2, 0.4), parseNumber(c3, 0.4)]),
+        alpha
+      );
+    
+    case 'oklch': {
+      const l = parseNumber(c1, 1);
+      const c = parseNumber(c2, 0.4);
+      const h = parseAngle(c3);
+      const [a, b] = polarToCartesian(c, h);
+      
+      // Keep the authored OKLCH values rather than the gamut-mapped ones
+      return createParsedColorFromLinear(oklabToLinearSrgb([l, a, b]), alpha, { l, c, h, a: alpha });
+    }
+    
+    default:
+      return createParsedColorFromLinear(
+        colorSpaceToLinearSrgb(colorSpace ?? '', [c1, c2, c3].map(channel => parseNumber(channel, 1)) as Vector3),
+        alpha
+      );
+  }
 }
 
 /**
- * Parse HSL/HSLA color string
- * @param hslStr HSL/HSLA color string (e.g., "hsl(120, 100%, 50%)" or "hsla(120, 100%, 50%, 0.5)")
+ * Split color function arguments into channels and alpha
+ * Handles legacy `a, b, c, alpha` and modern `a b c / alpha` syntax.
+ * @param args Text between the parentheses
+ * @returns Channel components and alpha (undefined when not given)
  */
-function parseHslColor(hslStr: string): { 
-  hex: string;
-  rgb: RGB;
-  hsl: HSL;
-} {
-  // Check if color is HSLA
-  const isHsla = hslStr.startsWith('hsla(');
+function splitComponents(args: string): { components: string[]; alpha?: number } {
+  const [channels, alphaPart, ...rest] = args.split('/');
+  
+  if (rest.length > 0) {
+    throw new Error(`Invalid color components: ${args}`);
+  }
+  
+  const components = channels.includes(',')
+    ? channels.split(',').map(component => component.trim())
+    : channels.trim().split(/\s+/);
+  
+  let alphaComponent: string | undefined = alphaPart?.trim();
+  
+  // Legacy syntax passes alpha as a fourth comma-separated value
+  if (alphaComponent === undefined && channels.includes(',') && components.length === 4) {
+    alphaComponent = components.pop();
+  }
+  
+  const alpha = alphaComponent === undefined
+    ? undefined
+    : Math.max(0, Math.min(1, parseNumber(alphaComponent, 1)));
+  
+  return { components: components.filter(Boolean), alpha };
+}
+
+/**
+ * Parse a numeric color component
+ * @param component Component text (e.g., "50%", "0.5" or "none")
+ * @param percentScale Value that 100% maps to
+ * @returns Component value
+ */
+function parseNumber(component: string, percentScale: number): number {
+  if (component === 'none') {
+    return 0;
+  }
+  
+  const value = parseFloat(component);
+  
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?%?$/.test(component) || isNaN(value)) {
+    throw new Error(`Invalid color component: ${component}`);
+  }
+  
+  return component.endsWith('%') ? value / 100 * percentScale : value;
+}
+
+/**
+ * Parse a hue component in degrees
+ * @param component Hue text (e.g., "120", "120deg", "0.5turn" or "none")
+ * @returns Hue in degrees between 0 and 360
+ */
+function parseAngle(component: string): number {
+  if (component === 'none') {
+    return 0;
+  }
+  
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/.exec(component);
+  
+  if (!match) {
+    throw new Error(`Invalid hue: ${component}`);
+  }
+  
+  const value = parseFloat(match[1]);
+  let degrees = value;
+  
+  switch (match[2]) {
+    case 'rad':
+      degrees = value * 180 / Math.PI;
+      break;
+    case 'grad':
+      degrees = value * 0.9;
+      break;
+    case 'turn':
+      degrees = value * 360;
+      break;
+  }
+  
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Create a parsed color from sRGB channels between 0 and 1
+ * @param srgb Gamma-encoded sRGB channels
+ * @param alpha Alpha between 0 and 1, if given
+ * @param oklch Authored OKLCH values, if the color was given in OKLCH
+ */
+function createParsedColor(srgb: Vector3, alpha?: number, oklch?: OKLCH): ParsedColor {
+  const rgb: RGB = {
+    r: Math.round(clamp(srgb[0]) * 255),
+    g: Math.round(clamp(srgb[1]) * 255),
+    b: Math.round(clamp(srgb[2]) * 255),
+    a: alpha
+  };
+  
+  return {
+    hex: rgbToHex(rgb),
+    rgb,
+    hsl: rgbToHsl(rgb),
+    oklch: oklch ?? rgbToOklch(rgb)
+  };
+}
+
+/**
+ * Create a parsed color from linear-light sRGB, gamut mapping it first
+ * @param linear Linear sRGB channels, possibly out of gamut
+ * @param alpha Alpha between 0 and 1, if given
+ * @param oklch Authored OKLCH values, if the color was given in OKLCH
+ */
+function createParsedColorFromLinear(linear: Vector3, alpha?: number, oklch?: OKLCH): ParsedColor {
+  const mapped = gamutMapToSrgb(linear);
+  return createParsedColor(mapped.map(linearToGamma) as Vector3, alpha, oklch);
+}
+
+/**
+ * Map a linear sRGB color into the sRGB gamut
+ * Uses the CSS Color 4 algorithm: reduce OKLCH chroma by binary search until
+ * the clipped color is within a just noticeable difference of the original.
+ * @param linear Linear sRGB channels
+ * @returns Linear sRGB channels between 0 and 1
+ */
+function gamutMapToSrgb(linear: Vector3): Vector3 {
+  if (isInSrgbGamut(linear)) {
+    return linear.map(clamp) as Vector3;
+  }
+  
+  const JND = 0.02;
+  const EPSILON = 0.0001;
+  const origin = linearSrgbToOklab(linear);
+  
+  if (origin.l >= 1) {
+    return [1, 1, 1];
+  }
+  if (origin.l <= 0) {
+    return [0, 0, 0];
+  }
+  
+  const hue = Math.atan2(origin.b, origin.a);
+  const withChroma = (chroma: number): Lab => ({
+    l: origin.l,
+    a: chroma * Math.cos(hue),
+    b: chroma * Math.sin(hue)
+  });
+  
+  let clipped = linear.map(clamp) as Vector3;
+  
+  if (deltaEOK(linearSrgbToOklab(clipped), origin) < JND) {
+    return clipped;
+  }
+  
+  let min = 0;
+  let max = Math.hypot(origin.a, origin.b);
+  let minInGamut = true;
+  
+  while (max - min > EPSILON) {
+    const chroma = (min + max) / 2;
+    const current = withChroma(chroma);
+    const currentLinear = oklabToLinearSrgb([current.l, current.a, current.b]);
+    
+    if (minInGamut && isInSrgbGamut(currentLinear)) {
+      min = chroma;
+      continue;
+    }
+    
+    clipped = currentLinear.map(clamp) as Vector3;
+    const difference = deltaEOK(linearSrgbToOklab(clipped), current);
+    
+    if (difference < JND) {
+      if (JND - difference < EPSILON) {
+        return clipped;
+      }
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
   
-  // Extract HSL components
-  const values = hslStr
-    .replace(isHsla ? 'hsla(' : 'hsl(', '')
-    .replace(')', '')
-    .split(',')
-    .map(val => val.trim());
+  return clipped;
+}
+
+/**
+ * Check if linear sRGB channels are within the sRGB gamut
+ */
+function isInSrgbGamut(linear: Vector3): boolean {
+  const EPSILON = 0.000075;
+  return linear.every(channel => channel >= -EPSILON && channel <= 1 + EPSILON);
+}
+
+/**
+ * Convert HSL to gamma-encoded sRGB
+ * @param h Hue in degrees
+ * @param s Saturation between 0 and 1
+ * @param l Lightness between 0 and 1
+ */
+function hslToSrgb(h: number, s: number, l: number): Vector3 {
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
   
-  // Parse h, s, l values
-  const h = parseInt(values[0], 10);
-  const s = parseInt(values[1], 10) / 100;
-  const l = parseInt(values[2], 10) / 100;
-  const a = isHsla ? parseFloat(values[3]) : undefined;
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * Convert HWB to gamma-encoded sRGB
+ * @param h Hue in degrees
+ * @param white Whiteness between 0 and 1
+ * @param black Blackness between 0 and 1
+ */
+function hwbToSrgb(h: number, white: number, black: number): Vector3 {
+  if (white + black >= 1) {
+    const gray = white / (white + black);
+    return [gray, gray, gray];
+  }
   
-  const hsl: HSL = { h, s, l, a };
-  const rgb = hslToRgb(hsl);
-  const hex = rgbToHex(rgb);
+  return hslToSrgb(h, 1, 0.5).map(channel => channel * (1 - white - black) + white) as Vector3;
+}
+
+/**
+ * Convert CIELAB (D50, as used by CSS `lab()`) to linear sRGB
+ * @param lab L (0-100), a and b
+ */
+function labToLinearSrgb([l, a, b]: Vector3): Vector3 {
+  const kappa = 24389 / 27;
+  const epsilon = 216 / 24389;
+  const white: Vector3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+  
+  const fy = (l + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+  
+  const xyzD50: Vector3 = [
+    (Math.pow(fx, 3) > epsilon ? Math.pow(fx, 3) : (116 * fx - 16) / kappa) * white[0],
+    (l > kappa * epsilon ? Math.pow(fy, 3) : l / kappa) * white[1],
+    (Math.pow(fz, 3) > epsilon ? Math.pow(fz, 3) : (116 * fz - 16) / kappa) * white[2]
+  ];
+  
+  return multiplyMatrix(XYZ_D65_TO_LINEAR_SRGB, multiplyMatrix(D50_TO_D65, xyzD50));
+}
+
+/**
+ * Convert OKLab to linear sRGB
+ * @param oklab L (0-1), a and b
+ */
+function oklabToLinearSrgb([l, a, b]: Vector3): Vector3 {
+  const lms = [
+    l + 0.3963377774 * a + 0.2158037573 * b,
+    l - 0.1055613458 * a - 0.0638541728 * b,
+    l - 0.0894841775 * a - 1.2914855480 * b
+  ].map(value => Math.pow(value, 3)) as Vector3;
+  
+  return multiplyMatrix([
+    [4.0767416621, -3.3077115913, 0.2309699292],
+    [-1.2684380046, 2.6097574011, -0.3413193965],
+    [-0.0041960863, -0.7034186147, 1.7076147010]
+  ], lms);
+}
+
+/**
+ * Convert linear sRGB to OKLab
+ * @param linear Linear sRGB channels
+ */
+function linearSrgbToOklab(linear: Vector3): Lab {
+  const [l, m, s] = multiplyMatrix([
+    [0.4122214708, 0.5363325363, 0.0514459929],
+    [0.2119034982, 0.6806995451, 0.1073969566],
+    [0.0883024619, 0.2817188376, 0.6299787005]
+  ], linear).map(Math.cbrt);
   
-  return { hex, rgb, hsl };
+  return {
+    l: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  };
+}
+
+/**
+ * Convert `color()` channels in a predefined color space to linear sRGB
+ * @param colorSpace Color space name (e.g., "display-p3")
+ * @param channels Channel values (0-1 for RGB spaces)
+ */
+function colorSpaceToLinearSrgb(colorSpace: string, channels: Vector3): Vector3 {
+  switch (colorSpace) {
+    case 'srgb':
+      return channels.map(gammaToLinear) as Vector3;
+    case 'srgb-linear':
+      return channels;
+    case 'display-p3':
+      return multiplyMatrix(XYZ_D65_TO_LINEAR_SRGB, multiplyMatrix(LINEAR_P3_TO_XYZ_D65, channels.map(gammaToLinear) as Vector3));
+    case 'rec2020':
+      return multiplyMatrix(XYZ_D65_TO_LINEAR_SRGB, multiplyMatrix(LINEAR_REC2020_TO_XYZ_D65, channels.map(rec2020ToLinear) as Vector3));
+    case 'xyz':
+    case 'xyz-d65':
+      return multiplyMatrix(XYZ_D65_TO_LINEAR_SRGB, channels);
+    case 'xyz-d50':
+      return multiplyMatrix(XYZ_D65_TO_LINEAR_SRGB, multiplyMatrix(D50_TO_D65, channels));
+    default:
+      throw new Error(`Unsupported color space: ${colorSpace}`);
+  }
+}
+
+const XYZ_D65_TO_LINEAR_SRGB: [Vector3, Vector3, Vector3] = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786]
+];
+
+const LINEAR_P3_TO_XYZ_D65: [Vector3, Vector3, Vector3] = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976]
+];
+
+const LINEAR_REC2020_TO_XYZ_D65: [Vector3, Vector3, Vector3] = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791]
+];
+
+// Bradford chromatic adaptation from the D50 to the D65 white point
+const D50_TO_D65: [Vector3, Vector3, Vector3] = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124]
+];
+
+/**
+ * Multiply a 3x3 matrix by a vector
+ */
+function multiplyMatrix(matrix: [Vector3, Vector3, Vector3], vector: Vector3): Vector3 {
+  return matrix.map(row => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]) as Vector3;
+}
+
+/**
+ * Convert a gamma-encoded sRGB (or display-p3) channel to linear light
+ */
+function gammaToLinear(value: number): number {
+  const abs = Math.abs(value);
+  return abs <= 0.04045 ? value / 12.92 : Math.sign(value) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert a linear-light sRGB channel to gamma-encoded sRGB
+ */
+function linearToGamma(value: number): number {
+  const abs = Math.abs(value);
+  return abs <= 0.0031308 ? value * 12.92 : Math.sign(value) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+}
+
+/**
+ * Convert a gamma-encoded Rec. 2020 channel to linear light
+ */
+function rec2020ToLinear(value: number): number {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  const abs = Math.abs(value);
+  return abs < beta * 4.5 ? value / 4.5 : Math.sign(value) * Math.pow((abs + alpha - 1) / alpha, 1 / 0.45);
+}
+
+/**
+ * Convert polar chroma and hue to cartesian a and b
+ */
+function polarToCartesian(chroma: number, hue: number): [number, number] {
+  const radians = hue * Math.PI / 180;
+  return [chroma * Math.cos(radians), chroma * Math.sin(radians)];
+}
+
+/**
+ * Clamp a value between 0 and 1
+ */
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Convert RGB to OKLCH
+ * @param rgb RGB color object
+ * @returns OKLCH color (hue in degrees)
+ */
+export function rgbToOklch(rgb: RGB): OKLCH {
+  const { l, a, b } = rgbToOklab(rgb);
+  const c = Math.hypot(a, b);
+  // Hue is meaningless for achromatic colors
+  const h = c < 0.0001 ? 0 : ((Math.atan2(b, a) * 180 / Math.PI) + 360) % 360;
+  
+  return { l, c, h, a: rgb.a };
 }
 
 /**
@@ -269,6 +621,16 @@ export function rgbToHex(rgb: RGB): string {
   return hex;
 }
 
+/**
+ * Check if two alpha values are equal within the precision of 8-bit hex alpha
+ * @param alpha1 First alpha (0-1)
+ * @param alpha2 Second alpha (0-1)
+ * @returns True if the values are indistinguishable
+ */
+export function isSameAlpha(alpha1: number, alpha2: number): boolean {
+  return Math.abs(alpha1 - alpha2) < 1 / 255;
+}
+
 /**
  * Convert RGB to HSL
  * @param rgb RGB color object
@@ -315,12 +677,12 @@ export function rgbToHsl(rgb: RGB): HSL {
 
 /**
  * Convert HSL to RGB
- * @param hsl HSL color object
+ * @param hsl HSL color object (saturation and lightness in percent, as returned by rgbToHsl)
  * @returns RGB color object
  */
 export function hslToRgb(hsl: HSL): RGB {
   const h = hsl.h / 360;
-  const s = hsl.s;
+  const s = hsl.s / 100;
   const l = hsl.l / 100;
   
   let r, g, b;
@@ -355,31 +717,205 @@ export function hslToRgb(hsl: HSL): RGB {
 }
 
 /**
- * Calculate color distance (simple Euclidean distance in RGB space)
- * More sophisticated algorithms like CIEDE2000 would be better for production
+ * Metrics for comparing colors
+ * - `oklab`: Euclidean distance in OKLab (ΔEOK), perceptually uniform and cheap
+ * - `ciede2000`: CIE ΔE 2000 in CIELAB, the industry standard for small differences
+ * - `rgb`: Euclidean distance in sRGB, not perceptual
+ */
+export type ColorDistanceMetric = 'oklab' | 'ciede2000' | 'rgb';
+
+/**
+ * Just-noticeable difference for each metric
+ * RGB is not perceptual; its figure is a rough equivalent for mid-range colors.
+ */
+const JUST_NOTICEABLE_DIFFERENCES: Record<ColorDistanceMetric, number> = {
+  oklab: 0.02,
+  ciede2000: 2.3,
+  rgb: 8
+};
+
+/**
+ * Number of just-noticeable differences at which colors count as unrelated
+ */
+const UNRELATED_COLOR_STEPS = 8;
+
+/**
+ * Calculate the normalized distance between two colors
+ * The raw distance is measured in just-noticeable differences and reaches 1
+ * at `UNRELATED_COLOR_STEPS` of them, so `1 - distance` can be used as a
+ * confidence score for every metric: a barely visible difference scores
+ * about 0.875, while red and orange score well below the default threshold.
  * @param color1 First RGB color
  * @param color2 Second RGB color
- * @returns Distance value (lower means more similar)
+ * @param metric Distance metric (defaults to perceptual OKLab)
+ * @returns Distance between 0 and 1 (lower means more similar)
+ */
+export function calculateColorDistance(
+  color1: RGB,
+  color2: RGB,
+  metric: ColorDistanceMetric = 'oklab'
+): number {
+  let distance: number;
+  
+  switch (metric) {
+    case 'ciede2000':
+      distance = deltaE2000(rgbToLab(color1), rgbToLab(color2));
+      break;
+    case 'rgb':
+      distance = Math.sqrt(
+        Math.pow(color1.r - color2.r, 2) +
+        Math.pow(color1.g - color2.g, 2) +
+        Math.pow(color1.b - color2.b, 2)
+      );
+      break;
+    default:
+      distance = deltaEOK(rgbToOklab(color1), rgbToOklab(color2));
+  }
+  
+  return Math.min(1, distance / (JUST_NOTICEABLE_DIFFERENCES[metric] * UNRELATED_COLOR_STEPS));
+}
+
+/**
+ * Convert an sRGB channel (0-255) to linear light (0-1)
+ */
+function srgbToLinear(channel: number): number {
+  return gammaToLinear(channel / 255);
+}
+
+/**
+ * Convert RGB to OKLab
+ * @param rgb RGB color object
+ * @returns OKLab color (L between 0 and 1)
+ */
+export function rgbToOklab(rgb: RGB): Lab {
+  return linearSrgbToOklab([srgbToLinear(rgb.r), srgbToLinear(rgb.g), srgbToLinear(rgb.b)]);
+}
+
+/**
+ * Convert RGB to CIELAB (D65 white point)
+ * @param rgb RGB color object
+ * @returns CIELAB color (L between 0 and 100)
+ */
+export function rgbToLab(rgb: RGB): Lab {
+  const r = srgbToLinear(rgb.r);
+  const g = srgbToLinear(rgb.g);
+  const b = srgbToLinear(rgb.b);
+  
+  // Linear sRGB to XYZ, relative to the D65 white point
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047;
+  const y = 0.2126729 * r + 0.7151522 * g + 0.0721750 * b;
+  const z = (0.0193339 * r + 0.1191920 * g + 0.9503041 * b) / 1.08883;
+  
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+  
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz)
+  };
+}
+
+/**
+ * Calculate ΔEOK, the Euclidean distance between two OKLab colors
+ * @param lab1 First OKLab color
+ * @param lab2 Second OKLab color
+ * @returns Color difference (about 0.02 is a just noticeable difference)
  */
-export function calculateColorDistance(color1: RGB, color2: RGB): number {
-  const rDiff = Math.pow(color1.r - color2.r, 2);
-  const gDiff = Math.pow(color1.g - color2.g, 2);
-  const bDiff = Math.pow(color1.b - color2.b, 2);
+export function deltaEOK(lab1: Lab, lab2: Lab): number {
+  return Math.sqrt(
+    Math.pow(lab1.l - lab2.l, 2) +
+    Math.pow(lab1.a - lab2.a, 2) +
+    Math.pow(lab1.b - lab2.b, 2)
+  );
+}
+
+/**
+ * Calculate the CIEDE2000 color difference between two CIELAB colors
+ * Implements Sharma, Wu and Dalal (2005) with unit weighting factors.
+ * @param lab1 First CIELAB color
+ * @param lab2 Second CIELAB color
+ * @returns Color difference (about 2.3 is a just noticeable difference)
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const toDegrees = (radians: number) => radians * 180 / Math.PI;
+  
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const cMean = (c1 + c2) / 2;
+  const g = 0.5 * (1 - Math.sqrt(Math.pow(cMean, 7) / (Math.pow(cMean, 7) + Math.pow(25, 7))));
+  
+  const a1 = (1 + g) * lab1.a;
+  const a2 = (1 + g) * lab2.a;
+  const c1Prime = Math.hypot(a1, lab1.b);
+  const c2Prime = Math.hypot(a2, lab2.b);
+  const hue = (a: number, b: number) => (a === 0 && b === 0 ? 0 : (toDegrees(Math.atan2(b, a)) + 360) % 360);
+  const h1 = hue(a1, lab1.b);
+  const h2 = hue(a2, lab2.b);
+  
+  const deltaL = lab2.l - lab1.l;
+  const deltaC = c2Prime - c1Prime;
+  
+  let deltaH = 0;
+  if (c1Prime * c2Prime !== 0) {
+    deltaH = h2 - h1;
+    if (deltaH > 180) {
+      deltaH -= 360;
+    } else if (deltaH < -180) {
+      deltaH += 360;
+    }
+  }
+  const deltaHPrime = 2 * Math.sqrt(c1Prime * c2Prime) * Math.sin(toRadians(deltaH / 2));
+  
+  const lMean = (lab1.l + lab2.l) / 2;
+  const cMeanPrime = (c1Prime + c2Prime) / 2;
   
-  // Simple Euclidean distance in RGB space
-  const distance = Math.sqrt(rDiff + gDiff + bDiff);
+  let hMean = h1 + h2;
+  if (c1Prime * c2Prime !== 0) {
+    if (Math.abs(h1 - h2) <= 180) {
+      hMean = (h1 + h2) / 2;
+    } else {
+      hMean = h1 + h2 < 360 ? (h1 + h2 + 360) / 2 : (h1 + h2 - 360) / 2;
+    }
+  }
   
-  // Normalize to a 0-1 scale (255 * sqrt(3) is maximum possible distance)
-  return distance / (255 * Math.sqrt(3));
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hMean - 30))
+    + 0.24 * Math.cos(toRadians(2 * hMean))
+    + 0.32 * Math.cos(toRadians(3 * hMean + 6))
+    - 0.20 * Math.cos(toRadians(4 * hMean - 63));
+  
+  const sl = 1 + (0.015 * Math.pow(lMean - 50, 2)) / Math.sqrt(20 + Math.pow(lMean - 50, 2));
+  const sc = 1 + 0.045 * cMeanPrime;
+  const sh = 1 + 0.015 * cMeanPrime * t;
+  
+  const deltaTheta = 30 * Math.exp(-Math.pow((hMean - 275) / 25, 2));
+  const rc = 2 * Math.sqrt(Math.pow(cMeanPrime, 7) / (Math.pow(cMeanPrime, 7) + Math.pow(25, 7)));
+  const rt = -Math.sin(toRadians(2 * deltaTheta)) * rc;
+  
+  return Math.sqrt(
+    Math.pow(deltaL / sl, 2) +
+    Math.pow(deltaC / sc, 2) +
+    Math.pow(deltaHPrime / sh, 2) +
+    rt * (deltaC / sc) * (deltaHPrime / sh)
+  );
 }
 
 /**
  * Find the closest color match from a list of colors
  * @param targetColor The color to match
  * @param colors Array of candidate colors to match against
+ * @param metric Distance metric (defaults to perceptual OKLab)
  * @returns The closest matching color and its confidence score
  */
-export function findClosestColor(targetColor: RGB, colors: Array<{color: RGB, token: any}>): {
+export function findClosestColor(
+  targetColor: RGB,
+  colors: Array<{color: RGB, token: any}>,
+  metric: ColorDistanceMetric = 'oklab'
+): {
   match: any;
   confidence: number;
 } {
@@ -388,10 +924,10 @@ export function findClosestColor(targetColor: RGB, colors: Array<{color: RGB, to
   }
   
   let closestMatch = colors[0];
-  let smallestDistance = calculateColorDistance(targetColor, colors[0].color);
+  let smallestDistance = calculateColorDistance(targetColor, colors[0].color, metric);
   
   for (let i = 1; i < colors.length; i++) {
-    const distance = calculateColorDistance(targetColor, colors[i].color);
+    const distance = calculateColorDistance(targetColor, colors[i].color, metric);
     if (distance < smallestDistance) {
       smallestDistance = distance;
       closestMatch = colors[i];
@@ -0,0 +1,266 @@
+/**
+ * Utility functions for scanning CSS source text
+ */
+
+/**
+ * A single `property: value` declaration found in CSS text
+ */
+export interface CssDeclaration {
+  /** Property name as written (e.g., "background-color") */
+  property: string;
+
+  /** Declaration value without `!important` or surrounding whitespace */
+  value: string;
+
+  /** Offset of the value in the scanned text */
+  valueStart: number;
+
+  /** Offset just past the value in the scanned text */
+  valueEnd: number;
+
+  /** Selectors and at-rules enclosing the declaration, outermost first */
+  selectors: string[];
+}
+
+/**
+ * Find all declarations in CSS text
+ * Handles comments, quoted strings and nested blocks (SCSS, styled-components).
+ * Offsets refer to the original text, so callers can map values back to source.
+ * @param css CSS text to scan
+ * @returns Declarations in source order
+ */
+export function parseCssDeclarations(css: string): CssDeclaration[] {
+  const text = blankComments(css);
+  const declarations: CssDeclaration[] = [];
+  const selectors: string[] = [];
+
+  let segmentStart = 0;
+  let quote: string | null = null;
+  let parenDepth = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    // Skip over quoted strings
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === '\'') {
+      quote = char;
+      continue;
+    }
+
+    // Semicolons inside url(...) or data URIs do not end a declaration
+    if (char === '(') {
+      parenDepth++;
+      continue;
+    }
+    if (char === ')') {
+      parenDepth = Math.max(0, parenDepth - 1);
+      continue;
+    }
+    if (parenDepth > 0) {
+      continue;
+    }
+
+    if (char === '{') {
+      selectors.push(text.substring(segmentStart, i).trim());
+      segmentStart = i + 1;
+    } else if (char === ';' || char === '}') {
+      const declaration = parseDeclaration(text, segmentStart, i, selectors);
+      if (declaration) {
+        declarations.push(declaration);
+      }
+
+      if (char === '}') {
+        selectors.pop();
+      }
+      segmentStart = i + 1;
+    }
+  }
+
+  // Trailing declaration without a terminating semicolon
+  const trailing = parseDeclaration(text, segmentStart, text.length, selectors);
+  if (trailing) {
+    declarations.push(trailing);
+  }
+
+  return declarations;
+}
+
+/**
+ * Parse a single declaration from a segment of CSS text
+ * @param text CSS text with comments blanked out
+ * @param start Segment start offset
+ * @param end Segment end offset
+ * @param selectors Enclosing selectors
+ * @returns Declaration, or null if the segment is not a declaration
+ */
+function parseDeclaration(
+  text: string,
+  start: number,
+  end: number,
+  selectors: string[]
+): CssDeclaration | null {
+  const segment = text.substring(start, end);
+  const match = /^(\s*)(-{0,2}[a-zA-Z][\w-]*)(\s*:\s*)/.exec(segment);
+
+  if (!match) {
+    return null;
+  }
+
+  let valueStart = start + match[0].length;
+  let valueEnd = end;
+
+  // Drop a trailing !important flag
+  const importantMatch = /\s*!\s*important\s*$/i.exec(text.substring(valueStart, valueEnd));
+  if (importantMatch) {
+    valueEnd -= importantMatch[0].length;
+  }
+
+  // Trim whitespace around the value
+  while (valueEnd > valueStart && /\s/.test(text[valueEnd - 1])) {
+    valueEnd--;
+  }
+  while (valueStart < valueEnd && /\s/.test(text[valueStart])) {
+    valueStart++;
+  }
+
+  if (valueStart === valueEnd) {
+    return null;
+  }
+
+  return {
+    property: match[2],
+    value: text.substring(valueStart, valueEnd),
+    valueStart,
+    valueEnd,
+    selectors: [...selectors]
+  };
+}
+
+/**
+ * Replace CSS and line comments with spaces, keeping offsets intact
+ * @param css CSS text
+ * @returns CSS text of the same length without comments
+ */
+export function blankComments(css: string): string {
+  return css
+    .replace(/\/\*[\s\S]*?\*\//g, comment => comment.replace(/[^\n]/g, ' '))
+    // SCSS line comments, but not the `//` in URLs
+    .replace(/(^|[^:])(\/\/[^\n]*)/gm, (_, prefix: string, comment: string) => prefix + ' '.repeat(comment.length));
+}
+
+/**
+ * Convert a kebab-case CSS property to its camelCase form
+ * @param property Property name (e.g., "background-color")
+ * @returns camelCase name (e.g., "backgroundColor")
+ */
+export function toCamelCase(property: string): string {
+  return property
+    .replace(/^-(webkit|moz|ms|o)-/, '$1-')
+    .replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * A `var()` reference in a CSS value
+ */
+export interface VarReference {
+  /** Referenced custom property (e.g., "--color-primary") */
+  name: string;
+
+  /** Fallback value, if one is given */
+  fallback?: string;
+
+  /** Offset of `var(` in the value */
+  start: number;
+
+  /** Offset just past the closing parenthesis */
+  end: number;
+}
+
+/**
+ * Find the top-level `var()` references in a CSS value
+ * Fallbacks may contain nested functions and further `var()` references.
+ * @param value CSS value
+ * @returns References in order of appearance
+ */
+export function findVarReferences(value: string): VarReference[] {
+  const references: VarReference[] = [];
+  const varRegex = /var\(\s*(--[\w-]+)\s*(,)?/g;
+  let match;
+
+  while ((match = varRegex.exec(value)) !== null) {
+    // Find the closing parenthesis, allowing nested functions in the fallback
+    let depth = 1;
+    let index = match.index + 4;
+    while (index < value.length && depth > 0) {
+      index++;
+      if (value[index] === '(') {
+        depth++;
+      } else if (value[index] === ')') {
+        depth--;
+      }
+    }
+
+    if (depth > 0) {
+      break;
+    }
+
+    const end = index + 1;
+    const fallback = match[2] ? value.substring(match.index + match[0].length, index).trim() : undefined;
+
+    references.push({ name: match[1], fallback, start: match.index, end });
+    varRegex.lastIndex = end;
+  }
+
+  return references;
+}
+
+/**
+ * Get the reference when a CSS value is a single `var()` expression
+ * @param value CSS value (e.g., "var(--color-blue-500)")
+ * @returns The reference, or null if the value is anything else
+ */
+export function parseVarFunction(value: string): VarReference | null {
+  const trimmed = value.trim();
+  const [reference] = findVarReferences(trimmed);
+
+  return reference && reference.start === 0 && reference.end === trimmed.length ? reference : null;
+}
+
+/**
+ * Split a CSS value at top-level commas or whitespace
+ * Separators inside functions (e.g., `rgba(0, 0, 0, 0.1)`) are kept.
+ * @param value CSS value
+ * @param separator Split at commas or at whitespace
+ * @returns Trimmed, non-empty parts
+ */
+export function splitTopLevel(value: string, separator: 'comma' | 'space'): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let partStart = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && (separator === 'comma' ? char === ',' : /\s/.test(char))) {
+      parts.push(value.substring(partStart, i));
+      partStart = i + 1;
+    }
+  }
+
+  parts.push(value.substring(partStart));
+
+  return parts.map(part => part.trim()).filter(Boolean);
+}
@@ -0,0 +1,149 @@
+/**
+ * Utility functions for parsing and comparing box-shadow values
+ */
+
+import type { ShadowLayer, TokenMatchOptions } from '../core/types.js';
+import { calculateColorDistance, isColorString, isSameAlpha, parseColor } from './colorUtils.js';
+import { splitTopLevel } from './cssUtils.js';
+import { parseLength, toPixels } from './unitUtils.js';
+
+/**
+ * Options for comparing shadows
+ */
+export type ShadowCompareOptions = Pick<TokenMatchOptions, 'rootFontSize' | 'colorMetric'>;
+
+/**
+ * Length components of a shadow layer, in the order they are written
+ */
+const SHADOW_LENGTHS = ['x', 'y', 'blur', 'spread'] as const;
+
+/**
+ * Parse a box-shadow value into its layers
+ * The inset keyword and color may appear before or after the lengths.
+ * @param value Box-shadow CSS value (e.g., "0 2px 4px rgba(0, 0, 0, 0.1)")
+ * @returns Shadow layers, or null if the value is not a shadow
+ */
+export function parseShadow(value: string): ShadowLayer[] | null {
+  const layers: ShadowLayer[] = [];
+
+  for (const part of splitTopLevel(value, 'comma')) {
+    const lengths: string[] = [];
+    const colors: string[] = [];
+    let inset = false;
+
+    for (const component of splitTopLevel(part, 'space')) {
+      if (component.toLowerCase() === 'inset') {
+        inset = true;
+      } else if (parseLength(component)) {
+        lengths.push(component);
+      } else {
+        colors.push(component);
+      }
+    }
+
+    if (lengths.length < 2 || lengths.length > 4 || colors.length > 1) {
+      return null;
+    }
+
+    layers.push({
+      inset,
+      x: lengths[0],
+      y: lengths[1],
+      blur: lengths[2] ?? '0',
+      spread: lengths[3] ?? '0',
+      color: colors[0] ?? 'currentColor'
+    });
+  }
+
+  return layers.length > 0 ? layers : null;
+}
+
+/**
+ * Compare two shadows layer by layer
+ * Layers are paired in order; a layer without a counterpart scores 0.
+ * @param shadow1 First shadow's layers
+ * @param shadow2 Second shadow's layers
+ * @param options Root font size and color metric
+ * @returns Similarity between 0 (unrelated) and 1 (identical)
+ */
+export function compareShadows(
+  shadow1: ShadowLayer[],
+  shadow2: ShadowLayer[],
+  options: ShadowCompareOptions = {}
+): number {
+  const layerCount = Math.max(shadow1.length, shadow2.length);
+  let total = 0;
+
+  for (let i = 0; i < Math.min(shadow1.length, shadow2.length); i++) {
+    total += compareShadowLayers(shadow1[i], shadow2[i], options);
+  }
+
+  return layerCount === 0 ? 0 : total / layerCount;
+}
+
+/**
+ * Compare two shadow layers on their geometry and color
+ * @param layer1 First layer
+ * @param layer2 Second layer
+ * @param options Root font size and color metric
+ * @returns Similarity between 0 and 1
+ */
+function compareShadowLayers(layer1: ShadowLayer, layer2: ShadowLayer, options: ShadowCompareOptions): number {
+  if (Boolean(layer1.inset) !== Boolean(layer2.inset)) {
+    return 0;
+  }
+
+  return compareShadowLengths(layer1, layer2, options) * compareShadowColors(layer1.color, layer2.color, options);
+}
+
+/**
+ * Compare the offsets, blur and spread of two layers
+ * @param layer1 First layer
+ * @param layer2 Second layer
+ * @param options Root font size
+ * @returns Total length difference relative to the larger lengths, inverted (1 = identical)
+ */
+function compareShadowLengths(layer1: ShadowLayer, layer2: ShadowLayer, options: ShadowCompareOptions): number {
+  let difference = 0;
+  let extent = 0;
+
+  for (const key of SHADOW_LENGTHS) {
+    const pixels1 = toPixels(layer1[key], options.rootFontSize);
+    const pixels2 = toPixels(layer2[key], options.rootFontSize);
+
+    // Lengths in layout-dependent units can only be compared as written
+    if (pixels1 === null || pixels2 === null) {
+      if (layer1[key] !== layer2[key]) {
+        return 0;
+      }
+      continue;
+    }
+
+    difference += Math.abs(pixels1 - pixels2);
+    extent += Math.max(Math.abs(pixels1), Math.abs(pixels2));
+  }
+
+  return extent === 0 ? 1 : 1 - difference / extent;
+}
+
+/**
+ * Compare the colors of two layers, including their alpha
+ * @param color1 First color
+ * @param color2 Second color
+ * @param options Color metric
+ * @returns Color similarity between 0 and 1
+ */
+function compareShadowColors(color1: string, color2: string, options: ShadowCompareOptions): number {
+  // Keywords such as currentColor and unresolved references only match themselves
+  if (!isColorString(color1) || !isColorString(color2)) {
+    return color1.toLowerCase() === color2.toLowerCase() ? 1 : 0;
+  }
+
+  const rgb1 = parseColor(color1).rgb;
+  const rgb2 = parseColor(color2).rgb;
+  const alpha1 = rgb1.a ?? 1;
+  const alpha2 = rgb2.a ?? 1;
+  const alphaSimilarity = isSameAlpha(alpha1, alpha2) ? 1 : 1 - Math.abs(alpha1 - alpha2);
+
+  return (1 - calculateColorDistance(rgb1, rgb2, options.colorMetric)) * alphaSimilarity;
+}
@@ -0,0 +1,237 @@
+/**
+ * Utility functions for comparing typography values
+ */
+
+import type { TokenMatchOptions, TypographyToken } from '../core/types.js';
+import { parseLength, toPixels } from './unitUtils.js';
+
+/**
+ * Typography properties, keyed like `TypographyToken['value']`
+ */
+export type TypographyProperty = keyof TypographyToken['value'];
+
+/**
+ * Options for comparing typography
+ */
+export type TypographyCompareOptions = Pick<TokenMatchOptions, 'rootFontSize'>;
+
+/**
+ * Properties that make up a text style
+ */
+export const TYPOGRAPHY_PROPERTIES: TypographyProperty[] = [
+  'fontFamily',
+  'fontSize',
+  'fontWeight',
+  'lineHeight',
+  'letterSpacing'
+];
+
+/**
+ * Numeric weights for font-weight keywords
+ */
+const FONT_WEIGHT_KEYWORDS: Record<string, number> = {
+  normal: 400,
+  bold: 700
+};
+
+/**
+ * Compare a set of typography values with a text style
+ * Each property set on either side counts once: properties on both sides
+ * score by how close they are, properties the text style lacks score 0 and
+ * properties only the text style sets score 0.5, since applying it would
+ * add them.
+ * @param values Typography values to match (e.g., from one style object)
+ * @param styleValues Values of the text style
+ * @param options Root font size
+ * @returns Similarity between 0 (unrelated) and 1 (identical)
+ */
+export function compareTypography(
+  values: TypographyToken['value'],
+  styleValues: TypographyToken['value'],
+  options: TypographyCompareOptions = {}
+): number {
+  let total = 0;
+  let count = 0;
+
+  for (const property of TYPOGRAPHY_PROPERTIES) {
+    const value = values[property];
+    const styleValue = styleValues[property];
+
+    if (value === undefined && styleValue === undefined) {
+      continue;
+    }
+
+    count++;
+
+    if (value === undefined) {
+      total += 0.5;
+    } else if (styleValue !== undefined) {
+      total += compareTypographyProperty(property, value, styleValue, values, styleValues, options);
+    }
+  }
+
+  return count === 0 ? 0 : total / count;
+}
+
+/**
+ * Compare one typography property
+ * @param property Property being compared
+ * @param value First value
+ * @param styleValue Second value
+ * @param values All values on the first side, for font-size relative line heights
+ * @param styleValues All values on the second side
+ * @param options Root font size
+ * @returns Similarity between 0 and 1
+ */
+function compareTypographyProperty(
+  property: TypographyProperty,
+  value: string | number,
+  styleValue: string | number,
+  values: TypographyToken['value'],
+  styleValues: TypographyToken['value'],
+  options: TypographyCompareOptions
+): number {
+  switch (property) {
+    case 'fontFamily':
+      return compareFontFamilies(String(value), String(styleValue));
+
+    case 'fontWeight': {
+      const weight = toFontWeight(value);
+      const styleWeight = toFontWeight(styleValue);
+      // One weight step (100) apart scores 0.75
+      return weight !== null && styleWeight !== null
+        ? Math.max(0, 1 - Math.abs(weight - styleWeight) / 400)
+        : compareKeywords(value, styleValue);
+    }
+
+    case 'lineHeight': {
+      // Unitless line heights compare directly; otherwise resolve them against the font size
+      if (isUnitless(value) && isUnitless(styleValue)) {
+        return compareNumbers(Number(value), Number(styleValue));
+      }
+      const pixels = toLineHeightPixels(value, values.fontSize, options);
+      const stylePixels = toLineHeightPixels(styleValue, styleValues.fontSize, options);
+      return pixels !== null && stylePixels !== null
+        ? compareNumbers(pixels, stylePixels)
+        : compareKeywords(value, styleValue);
+    }
+
+    default: {
+      const pixels = toTypographyPixels(String(value), options);
+      const stylePixels = toTypographyPixels(String(styleValue), options);
+      return pixels !== null && stylePixels !== null
+        ? compareNumbers(pixels, stylePixels)
+        : compareKeywords(value, styleValue);
+    }
+  }
+}
+
+/**
+ * Compare font family lists
+ * @param family1 First font family list
+ * @param family2 Second font family list
+ * @returns 1 for the same list, 0.75 for the same primary family, 0 otherwise
+ */
+function compareFontFamilies(family1: string, family2: string): number {
+  const families1 = splitFontFamilies(family1);
+  const families2 = splitFontFamilies(family2);
+
+  if (families1.join(',') === families2.join(',')) {
+    return 1;
+  }
+
+  return families1[0] === families2[0] ? 0.75 : 0;
+}
+
+/**
+ * Split a font family list into normalized names
+ * @param family Font family list (e.g., `"Open Sans", sans-serif`)
+ * @returns Lowercase names without quotes
+ */
+function splitFontFamilies(family: string): string[] {
+  return family
+    .split(',')
+    .map(name => name.trim().replace(/^['"]|['"]$/g, '').toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Convert a font weight to a number
+ * @param weight Font weight (e.g., 600, "600", "bold")
+ * @returns Numeric weight, or null for relative keywords such as "bolder"
+ */
+function toFontWeight(weight: string | number): number | null {
+  if (typeof weight === 'number') {
+    return weight;
+  }
+
+  const keyword = FONT_WEIGHT_KEYWORDS[weight.trim().toLowerCase()];
+  if (keyword !== undefined) {
+    return keyword;
+  }
+
+  return /^\d+$/.test(weight.trim()) ? Number(weight) : null;
+}
+
+/**
+ * Convert a font size or letter spacing to pixels
+ * @param value Length or "normal"
+ * @param options Root font size
+ * @returns Pixels, or null if the value cannot be converted
+ */
+function toTypographyPixels(value: string, options: TypographyCompareOptions): number | null {
+  return value.trim().toLowerCase() === 'normal' ? 0 : toPixels(value, options.rootFontSize);
+}
+
+/**
+ * Convert a line height to pixels
+ * @param lineHeight Line height (e.g., 1.5, "150%", "24px")
+ * @param fontSize Font size the line height is relative to
+ * @param options Root font size
+ * @returns Pixels, or null if the line height cannot be converted
+ */
+function toLineHeightPixels(
+  lineHeight: string | number,
+  fontSize: string | undefined,
+  options: TypographyCompareOptions
+): number | null {
+  const length = parseLength(String(lineHeight));
+  const ratio = isUnitless(lineHeight) ? Number(lineHeight) : length?.unit === '%' ? length.value / 100 : null;
+
+  if (ratio === null) {
+    return toPixels(String(lineHeight), options.rootFontSize);
+  }
+
+  const fontPixels = fontSize === undefined ? null : toPixels(fontSize, options.rootFontSize);
+  return fontPixels === null ? null : ratio * fontPixels;
+}
+
+/**
+ * Check whether a value is a plain number
+ * @param value Value to check
+ * @returns True for numbers and numeric strings
+ */
+function isUnitless(value: string | number): boolean {
+  return typeof value === 'number' || /^\d*\.?\d+$/.test(value.trim());
+}
+
+/**
+ * Compare two numbers relative to the larger one
+ * @param number1 First number
+ * @param number2 Second number
+ * @returns Similarity between 0 and 1
+ */
+function compareNumbers(number1: number, number2: number): number {
+  const largest = Math.max(Math.abs(number1), Math.abs(number2));
+  return largest === 0 ? 1 : Math.max(0, 1 - Math.abs(number1 - number2) / largest);
+}
+
+/**
+ * Compare values that cannot be converted, such as keywords
+ * @param value1 First value
+ * @param value2 Second value
+ * @returns 1 if the values are the same, 0 otherwise
+ */
+function compareKeywords(value1: string | number, value2: string | number): number {
+  return String(value1).trim().toLowerCase() === String(value2).trim().toLowerCase() ? 1 : 0;
+}
@@ -0,0 +1,64 @@
+/**
+ * Utility functions for CSS length units
+ */
+
+/**
+ * Default root font size in pixels used to convert rem and em values
+ */
+export const DEFAULT_ROOT_FONT_SIZE = 16;
+
+/**
+ * A CSS length split into its number and unit
+ */
+export interface CssLength {
+  /** Numeric value (e.g., 1.5) */
+  value: number;
+
+  /** Unit in lowercase, or an empty string for unitless zero (e.g., "rem") */
+  unit: string;
+}
+
+/**
+ * Units that can be converted to pixels without layout context
+ */
+const PIXEL_UNITS = ['px', 'rem', 'em'];
+
+/**
+ * Parse a single CSS length
+ * @param value CSS value (e.g., "1.5rem", "-8px", "0")
+ * @returns Parsed length, or null if the value is not a single length
+ */
+export function parseLength(value: string): CssLength | null {
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z%]*)$/i.exec(value.trim());
+
+  if (!match) {
+    return null;
+  }
+
+  const length = { value: parseFloat(match[1]), unit: match[2].toLowerCase() };
+
+  // Only zero may omit its unit
+  if (!length.unit && length.value !== 0) {
+    return null;
+  }
+
+  return length;
+}
+
+/**
+ * Convert a CSS length to pixels
+ * em values are resolved against the root font size, since the font size of
+ * the element they apply to is not known.
+ * @param value CSS value (e.g., "1rem")
+ * @param rootFontSize Root font size in pixels
+ * @returns Length in pixels, or null if the value cannot be converted
+ */
+export function toPixels(value: string, rootFontSize = DEFAULT_ROOT_FONT_SIZE): number | null {
+  const length = parseLength(value);
+
+  if (!length || (length.unit && !PIXEL_UNITS.includes(length.unit))) {
+    return null;
+  }
+
+  return length.unit === 'px' || !length.unit ? length.value : length.value * rootFontSize;
+}
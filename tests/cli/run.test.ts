@@ -0,0 +1,271 @@
+/**
+ * Tests for the token-transformer CLI
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { runCli, EXIT_CODES, CliIO } from '../../src/cli/run.js';
+import { parseCliArgs } from '../../src/cli/args.js';
+
+const tokensCss = `
+:root {
+  --color-primary: #25c9d0;
+  --spacing-sm: 1rem;
+}
+`;
+
+/**
+ * Create an IO object that collects output
+ */
+function createIO(): CliIO & { stdout: string; stderr: string } {
+  const io = {
+    stdout: '',
+    stderr: '',
+    out(text: string) {
+      io.stdout += text;
+    },
+    err(text: string) {
+      io.stderr += text;
+    }
+  };
+  return io;
+}
+
+describe('parseCliArgs', () => {
+  it('should parse commands, globs and flags', () => {
+    const options = parseCliArgs([
+      'scan', 'src/**/*.tsx', 'src/**/*.css',
+      '--tokens', 'tokens.css',
+      '--threshold=0.9',
+      '--categories', 'color,spacing',
+      '--mode', 'dark',
+      '--color-metric', 'ciede2000',
+      '--root-font-size', '10',
+      '--tolerance', '0.2',
+      '--class-functions', 'clsx, cn,tw',
+      '--alpha-format', 'relative-color',
+      '--default-theme',
+      '--project-root', 'src',
+      '--format', 'json'
+    ]);
+
+    expect(options).toEqual({
+      command: 'scan',
+      globs: ['src/**/*.tsx', 'src/**/*.css'],
+      tokens: 'tokens.css',
+      threshold: 0.9,
+      categories: ['color', 'spacing'],
+      mode: 'dark',
+      colorMetric: 'ciede2000',
+      rootFontSize: 10,
+      tolerance: 0.2,
+      classFunctions: ['clsx', 'cn', 'tw'],
+      alphaFormat: 'relative-color',
+      format: 'json',
+      defaultTheme: true,
+      projectRoot: 'src',
+      dryRun: false
+    });
+  });
+
+  it('should reject invalid arguments', () => {
+    expect(() => parseCliArgs(['lint', 'a.tsx', '--tokens', 't.css'])).toThrow('Unknown command');
+    expect(() => parseCliArgs(['scan', '--tokens', 't.css'])).toThrow('No file globs');
+    expect(() => parseCliArgs(['scan', 'a.tsx'])).toThrow('--tokens');
+    expect(() => parseCliArgs(['scan', 'a.tsx', '--tokens', 't.css', '--threshold', '2'])).toThrow('--threshold');
+    expect(() => parseCliArgs(['scan', 'a.tsx', '--tokens', 't.css', '--threshold='])).toThrow('Missing value for --threshold');
+    expect(() => parseCliArgs(['scan', 'a.tsx', '--tokens', 't.css', '--categories', ' '])).toThrow('Missing value for --categories');
+    expect(() => parseCliArgs(['scan', 'a.tsx', '--tokens', 't.css', '--categories', 'sizes'])).toThrow('--categories');
+    expect(() => parseCliArgs(['scan', 'a.tsx', '--tokens', 't.css', '--color-metric', 'hsl'])).toThrow('--color-metric');
+    expect(() => parseCliArgs(['scan', 'a.tsx', '--tokens', 't.css', '--root-font-size', '0'])).toThrow('--root-font-size');
+    expect(() => parseCliArgs(['scan', 'a.tsx', '--tokens', 't.css', '--tolerance', '-1'])).toThrow('--tolerance');
+    expect(() => parseCliArgs(['scan', 'a.tsx', '--tokens', 't.css', '--class-functions', 'cn,a.b'])).toThrow('--class-functions');
+    expect(() => parseCliArgs(['fix', 'a.tsx', '--tokens', 't.css', '--alpha-format', 'hex'])).toThrow('--alpha-format');
+    expect(() => parseCliArgs(['fix', 'a.tsx', '--tokens', 't.css', '--format', 'sarif'])).toThrow('only supported by scan');
+  });
+});
+
+describe('runCli', () => {
+  let tempDir: string;
+  let tokensPath: string;
+  let componentPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'token-transformer-'));
+    tokensPath = path.join(tempDir, 'tokens.css');
+    componentPath = path.join(tempDir, 'Button.tsx');
+    await fs.writeFile(tokensPath, tokensCss);
+    await fs.writeFile(componentPath, `<button style={{ color: '#25c9d0', padding: '1rem' }} />\n`);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report findings and fail the scan', async () => {
+    const io = createIO();
+
+    const exitCode = await runCli(['scan', path.join(tempDir, '*.tsx'), '--tokens', tokensPath], io);
+
+    expect(exitCode).toBe(EXIT_CODES.FINDINGS);
+    expect(io.stdout).toContain('Button.tsx:1:26  color  color: #25c9d0 -> --color-primary (100%)');
+    expect(io.stdout).toContain('2 hardcoded value(s) in 1 file(s)');
+  });
+
+  it('should output JSON findings', async () => {
+    const io = createIO();
+
+    await runCli(['scan', componentPath, '--tokens', tokensPath, '--format', 'json', '--categories', 'spacing'], io);
+
+    const { findings } = JSON.parse(io.stdout);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ line: 1, type: 'spacing', value: '1rem' });
+    expect(findings[0].suggestion.cssVariable).toBe('--spacing-sm');
+  });
+
+  it('should write SARIF reports to a file', async () => {
+    const io = createIO();
+    const outputPath = path.join(tempDir, 'report.sarif');
+
+    const exitCode = await runCli(['scan', componentPath, '--tokens', tokensPath, '--format', 'sarif', '--output', outputPath], io);
+
+    expect(exitCode).toBe(EXIT_CODES.FINDINGS);
+    expect(io.stdout).toBe('');
+    const log = JSON.parse(await fs.readFile(outputPath, 'utf-8'));
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs[0].results).toHaveLength(2);
+  });
+
+  it('should rewrite files and pass a follow-up scan', async () => {
+    const fixIO = createIO();
+    const fixExitCode = await runCli(['fix', componentPath, '--tokens', tokensPath], fixIO);
+
+    expect(fixExitCode).toBe(EXIT_CODES.SUCCESS);
+    expect(fixIO.stdout).toContain('2 replacement(s) in 1 file(s)');
+    expect(await fs.readFile(componentPath, 'utf-8')).toBe(
+      `<button style={{ color: 'var(--color-primary)', padding: 'var(--spacing-sm)' }} />\n`
+    );
+
+    const scanExitCode = await runCli(['scan', componentPath, '--tokens', tokensPath], createIO());
+    expect(scanExitCode).toBe(EXIT_CODES.SUCCESS);
+  });
+
+  it('should keep fixing other files but fail when a file cannot be written', async () => {
+    const cardPath = path.join(tempDir, 'Card.tsx');
+    await fs.writeFile(cardPath, `<div style={{ color: '#25c9d0' }} />\n`);
+    const writeFile = vi.spyOn(fs, 'writeFile').mockRejectedValueOnce(new Error('EACCES: permission denied'));
+    const io = createIO();
+
+    try {
+      const exitCode = await runCli(['fix', path.join(tempDir, '*.tsx'), '--tokens', tokensPath], io);
+
+      expect(exitCode).toBe(EXIT_CODES.RUNTIME_ERROR);
+      expect(io.stderr).toContain(`Failed to fix ${componentPath}: EACCES: permission denied`);
+    } finally {
+      writeFile.mockRestore();
+    }
+
+    expect(await fs.readFile(cardPath, 'utf-8')).toBe(`<div style={{ color: 'var(--color-primary)' }} />\n`);
+  });
+
+  it('should print a diff without writing files in dry-run mode', async () => {
+    const io = createIO();
+    const original = await fs.readFile(componentPath, 'utf-8');
+
+    const exitCode = await runCli(['fix', componentPath, '--tokens', tokensPath, '--dry-run'], io);
+
+    // Pending changes fail the dry run, so it can gate CI
+    expect(exitCode).toBe(EXIT_CODES.FINDINGS);
+    expect(io.stdout).toContain(`-<button style={{ color: '#25c9d0', padding: '1rem' }} />`);
+    expect(io.stdout).toContain(`+<button style={{ color: 'var(--color-primary)', padding: 'var(--spacing-sm)' }} />`);
+    expect(io.stdout).toContain('#25c9d0 -> var(--color-primary) (100%)');
+    expect(await fs.readFile(componentPath, 'utf-8')).toBe(original);
+  });
+
+  it('should suggest one text style for sibling typography values', async () => {
+    await fs.writeFile(tokensPath, `:root { --text-h1: 1.25rem; --text-h1--line-height: 1.75rem; }\n`);
+    await fs.writeFile(componentPath, `<h1 style={{ fontSize: '20px', lineHeight: '28px' }} />\n`);
+    const io = createIO();
+
+    await runCli(['scan', componentPath, '--tokens', tokensPath, '--format', 'json'], io);
+
+    const { findings } = JSON.parse(io.stdout);
+    expect(findings.map((finding: { property: string }) => finding.property)).toEqual(['fontSize', 'lineHeight']);
+    expect(findings.every((finding: { textStyle: { token: string } }) => finding.textStyle.token === 'text-h1')).toBe(true);
+    expect(findings.every((finding: { suggestion: unknown }) => finding.suggestion === null)).toBe(true);
+
+    // The text style is a note, never a fix for a single property
+    const sarifIO = createIO();
+    await runCli(['scan', componentPath, '--tokens', tokensPath, '--format', 'sarif'], sarifIO);
+    const [run] = JSON.parse(sarifIO.stdout).runs;
+    expect(run.results[1].message.text).toContain('text style --text-h1 (100%)');
+    expect(run.results.some((result: { fixes?: unknown }) => result.fixes)).toBe(false);
+  });
+
+  it('should report default Tailwind theme classes with the nearest token', async () => {
+    await fs.writeFile(tokensPath, `:root { --color-primary: #22d3ee; --spacing-sm: 1rem; }\n`);
+    await fs.writeFile(componentPath, `<button className="bg-cyan-400 p-4 flex" />\n`);
+    const io = createIO();
+
+    await runCli(['scan', componentPath, '--tokens', tokensPath], io);
+    expect(io.stdout).toContain('0 hardcoded value(s)');
+
+    await runCli(['scan', componentPath, '--tokens', tokensPath, '--default-theme'], io);
+    expect(io.stdout).toContain('Button.tsx:1:23  color  backgroundColor: bg-cyan-400 (#22d3ee) -> --color-primary');
+    expect(io.stdout).toContain('Button.tsx:1:34  spacing  padding: p-4 (1rem) -> --spacing-sm (100%)');
+  });
+
+  it('should report imported style values where they are defined', async () => {
+    const stylesPath = path.join(tempDir, 'styles.ts');
+    const cardPath = path.join(tempDir, 'Card.tsx');
+    await fs.writeFile(stylesPath, `export const base = { color: '#25c9d0' };\n`);
+    await fs.writeFile(componentPath, `import { base } from './styles';\n<button style={{ ...base, padding: '1rem' }} />\n`);
+    await fs.writeFile(cardPath, `import { base } from './styles.js';\n<div style={base} />\n`);
+    const io = createIO();
+
+    await runCli(['scan', path.join(tempDir, '*.tsx'), '--tokens', tokensPath, '--project-root', tempDir], io);
+
+    expect(io.stdout).toContain('styles.ts:1:31  color  color: #25c9d0 -> --color-primary (100%) (not auto-fixable)');
+    expect(io.stdout).toContain('Button.tsx:2:37  spacing  padding: 1rem -> --spacing-sm (100%)');
+    expect(io.stdout).toContain('2 hardcoded value(s) in 2 file(s)');
+
+    // Values in other modules are reported but only the scanned file is rewritten
+    await runCli(['fix', componentPath, '--tokens', tokensPath, '--project-root', tempDir], createIO());
+    expect(await fs.readFile(componentPath, 'utf-8')).toContain(`padding: 'var(--spacing-sm)'`);
+    expect(await fs.readFile(stylesPath, 'utf-8')).toBe(`export const base = { color: '#25c9d0' };\n`);
+  });
+
+  it('should report values once when the module defining them is also scanned', async () => {
+    const stylesPath = path.join(tempDir, 'styles.tsx');
+    await fs.writeFile(stylesPath, `export const base = { color: '#25c9d0' };\n<p style={base} />\n`);
+    await fs.writeFile(componentPath, `import { base } from './styles';\n<button style={base} />\n`);
+    const io = createIO();
+
+    await runCli(['scan', path.join(tempDir, '*.tsx'), '--tokens', tokensPath, '--project-root', tempDir, '--format', 'json'], io);
+
+    const { findings } = JSON.parse(io.stdout);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ value: '#25c9d0', fixable: true });
+  });
+
+  it('should load tokens from a Tailwind config', async () => {
+    const configPath = path.join(tempDir, 'tailwind.config.mjs');
+    await fs.writeFile(configPath, `export default { theme: { colors: { primary: '#25c9d0' } } };\n`);
+    const io = createIO();
+
+    await runCli(['scan', componentPath, '--tokens', configPath, '--categories', 'color'], io);
+
+    expect(io.stdout).toContain('color: #25c9d0 -> theme(colors.primary) (100%)');
+  });
+
+  it('should return a usage error for bad input', async () => {
+    const io = createIO();
+
+    expect(await runCli(['scan', componentPath], io)).toBe(EXIT_CODES.USAGE_ERROR);
+    expect(io.stderr).toContain('Usage: token-transformer');
+    expect(await runCli(['scan', path.join(tempDir, '*.vue'), '--tokens', tokensPath], io)).toBe(EXIT_CODES.USAGE_ERROR);
+    expect(await runCli(['scan', componentPath, '--tokens', path.join(tempDir, 'missing.css')], io)).toBe(EXIT_CODES.USAGE_ERROR);
+  });
+});
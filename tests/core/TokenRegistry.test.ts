@@ -2,11 +2,11 @@
  * Tests for TokenRegistry
  */
 
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { TokenRegistry } from '../../src/core/TokenRegistry.js';
-import { ColorToken, SpacingToken, BorderRadiusToken } from '../../src/core/types.js';
+import { ColorToken, SpacingToken, BorderRadiusToken, ShadowToken, TypographyToken } from '../../src/core/types.js';
 
 // Get the current directory
 const __filename = fileURLToPath(import.meta.url);
@@ -61,21 +61,93 @@ describe('TokenRegistry', () => {
     });
 
     it('should find exact color matches', () => {
-      // Test with a value that matches exactly to white
+      // Test with a value that matches exactly to white, through its semantic alias
       const match = registry.findClosestColorMatch('oklch(1 0 0)');
       
       expect(match).toBeDefined();
-      expect(match?.token.name).toBe('white');
+      expect(match?.token.cssVariable).toBe('--color-background');
       expect(match?.confidence).toBe(1);
     });
 
     it('should find approximate color matches', () => {
-      // Test with a dark blue that should match close to olivia-blue-dark
-      const match = registry.findClosestColorMatch('#105D7E');
+      // olivia-blue-dark is oklch(69.99% 0.1177 199.08), #0bb4ba in sRGB;
+      // a barely darker blue should still match it
+      const match = registry.findClosestColorMatch('#0bb0b6');
       
       expect(match).toBeDefined();
-      expect(match?.token.name).toContain('blue');
-      expect(match?.confidence).toBeGreaterThan(0.7);
+      expect(match?.token.name).toBe('olivia-blue-dark');
+      expect(match?.confidence).toBeGreaterThan(0.9);
+    });
+  });
+
+  describe('Color Distance Metrics', () => {
+    let metricRegistry: TokenRegistry;
+
+    beforeAll(async () => {
+      metricRegistry = new TokenRegistry({
+        cssContent: ':root { --color-dark-yellow: #f0f000; --color-pale-yellow: #ffff18; }'
+      });
+      await metricRegistry.initialize();
+    });
+
+    it('should use perceptual distance by default', () => {
+      const match = metricRegistry.findClosestColorMatch('#ffff00', { threshold: 0 });
+      
+      expect(match?.token.name).toBe('pale-yellow');
+      expect(match?.confidence).toBeCloseTo(0.982, 3);
+    });
+
+    it('should derive confidence from the selected metric', () => {
+      const rgbMatch = metricRegistry.findClosestColorMatch('#ffff00', { threshold: 0, colorMetric: 'rgb' });
+      expect(rgbMatch?.token.name).toBe('dark-yellow');
+      expect(rgbMatch?.confidence).toBeCloseTo(0.669, 3);
+      
+      const ciedeMatch = metricRegistry.findClosestColorMatch('#ffff00', { threshold: 0, colorMetric: 'ciede2000' });
+      expect(ciedeMatch?.token.name).toBe('pale-yellow');
+      expect(ciedeMatch?.confidence).toBeCloseTo(0.979, 3);
+    });
+
+    it('should reject visibly different colors at the default threshold', async () => {
+      const registry = new TokenRegistry({ cssContent: ':root { --color-red: #ff0000; --color-gray: #555555; }' });
+      await registry.initialize();
+
+      for (const colorMetric of ['oklab', 'ciede2000', 'rgb'] as const) {
+        expect(registry.findClosestColorMatch('#ff6000', { colorMetric })).toBeNull();
+        expect(registry.findClosestColorMatch('#333333', { colorMetric })).toBeNull();
+      }
+    });
+  });
+
+  describe('Color Alpha', () => {
+    let alphaRegistry: TokenRegistry;
+
+    beforeAll(async () => {
+      alphaRegistry = new TokenRegistry({
+        cssContent: ':root { --color-primary: #25c9d0; --color-overlay: rgba(0, 0, 0, 0.5); --color-black: #000000; }'
+      });
+      await alphaRegistry.initialize();
+    });
+
+    it('should suggest an opacity when only the alpha differs', () => {
+      const match = alphaRegistry.findClosestColorMatch('rgba(37, 201, 208, 0.5)');
+
+      expect(match?.token.name).toBe('primary');
+      expect(match?.confidence).toBe(1);
+      expect(match?.alpha).toBe(0.5);
+    });
+
+    it('should prefer a token with the same alpha', () => {
+      const match = alphaRegistry.findClosestColorMatch('rgb(0 0 0 / 50%)');
+
+      expect(match?.token.name).toBe('overlay');
+      expect(match?.alpha).toBeUndefined();
+    });
+
+    it('should not add an opacity to opaque colors', () => {
+      const match = alphaRegistry.findClosestColorMatch('#25c9d0');
+
+      expect(match?.token.name).toBe('primary');
+      expect(match?.alpha).toBeUndefined();
     });
   });
 
@@ -96,6 +168,31 @@ describe('TokenRegistry', () => {
         expect(header1.value).toHaveProperty('fontWeight');
       }
     });
+
+    it('should match a group of typography values to a text style', () => {
+      const match = registry.findTypographyMatch({ fontSize: '20px', lineHeight: '28px', fontWeight: '600' });
+
+      expect(match?.token.name).toBe('header-1');
+      expect(match?.confidence).toBe(1);
+      expect(match?.originalValue).toBe('fontSize: 20px; lineHeight: 28px; fontWeight: 600');
+    });
+
+    it('should prefer text styles that cover the same properties', () => {
+      const match = registry.findTypographyMatch({ fontSize: '1.25rem', lineHeight: '1.75rem' });
+
+      expect(match?.token.name).toBe('text-h1');
+      expect(match?.token.tailwindClass).toBe('text-h1');
+    });
+
+    it('should score partial typography matches', () => {
+      const match = registry.findTypographyMatch({ fontSize: '20px', lineHeight: '28px', fontWeight: '700' }, { threshold: 0 });
+
+      // One weight step off: (1 + 1 + 0.75) / 3
+      expect(match?.token.name).toBe('header-1');
+      expect(match?.confidence).toBeCloseTo(0.917, 3);
+      expect(registry.findTypographyMatch({ fontSize: '20px', lineHeight: '28px', fontWeight: '700' })).not.toBeNull();
+      expect(registry.findTypographyMatch({ fontSize: '20px', lineHeight: '28px', fontWeight: '700' }, { exact: true })).toBeNull();
+    });
   });
 
   describe('Spacing Tokens', () => {
@@ -120,6 +217,58 @@ describe('TokenRegistry', () => {
       expect(match?.token.name).toBe('sm');
       expect(match?.confidence).toBe(1);
     });
+
+    it('should match lengths across px, rem and em', () => {
+      const pxMatch = registry.findBestMatch('16px', 'spacing');
+      expect(pxMatch?.token.name).toBe('sm');
+      expect(pxMatch?.confidence).toBe(1);
+      expect(pxMatch?.rounding).toBeUndefined();
+
+      expect(registry.findBestMatch('1.5em', 'spacing')?.token.name).toBe('md');
+
+      const rootMatch = registry.findBestMatch('10px', 'spacing', { rootFontSize: 10 });
+      expect(rootMatch?.token.name).toBe('sm');
+      expect(rootMatch?.confidence).toBe(1);
+    });
+
+    it('should score near matches and report the rounding direction', () => {
+      const upMatch = registry.findBestMatch('15px', 'spacing');
+      expect(upMatch?.token.name).toBe('sm');
+      expect(upMatch?.confidence).toBeCloseTo(0.9375, 4);
+      expect(upMatch?.rounding).toBe('up');
+
+      const downMatch = registry.findBestMatch('17px', 'spacing');
+      expect(downMatch?.token.name).toBe('sm');
+      expect(downMatch?.rounding).toBe('down');
+    });
+
+    it('should only consider tokens within the tolerance', () => {
+      expect(registry.findBestMatch('15px', 'spacing', { tolerance: 0.05 })).toBeNull();
+      expect(registry.findBestMatch('15px', 'spacing', { exact: true })).toBeNull();
+      expect(registry.findBestMatch('13px', 'spacing')).toBeNull();
+      expect(registry.findBestMatch('13px', 'spacing', { tolerance: 0.25, threshold: 0.8 })?.token.name).toBe('sm');
+      expect(registry.findBestMatch('50%', 'spacing')).toBeNull();
+    });
+
+    it('should match each component of a shorthand', () => {
+      const match = registry.findBestMatch('8px 1rem', 'spacing');
+
+      expect(match?.confidence).toBe(1);
+      expect(match?.components?.map(component => component.match?.token.name)).toEqual(['xs', 'sm']);
+
+      const autoMatch = registry.findBestMatch('16px auto', 'spacing');
+      expect(autoMatch?.components?.map(component => component.match?.token.name ?? component.value)).toEqual(['sm', 'auto']);
+    });
+
+    it('should lower shorthand confidence for lengths without a token', () => {
+      expect(registry.findBestMatch('4px 8px 12px', 'spacing')).toBeNull();
+
+      const match = registry.findBestMatch('4px 8px 12px', 'spacing', { threshold: 0.5 });
+      expect(match?.confidence).toBeCloseTo(2 / 3, 4);
+      expect(match?.components?.[2]).toEqual({ value: '12px', match: null });
+
+      expect(registry.findBestMatch('0 auto', 'spacing')).toBeNull();
+    });
   });
 
   describe('Border Radius Tokens', () => {
@@ -135,6 +284,13 @@ describe('TokenRegistry', () => {
       expect(borderRadiusXs).toBeDefined();
       expect(borderRadiusXs?.value).toBe('0.5rem');
     });
+
+    it('should find near border radius matches', () => {
+      const match = registry.findBestMatch('11px', 'borderRadius');
+
+      expect(match?.token.name).toBe('sm');
+      expect(match?.rounding).toBe('up');
+    });
   });
 
   describe('Shadow Tokens', () => {
@@ -150,6 +306,73 @@ describe('TokenRegistry', () => {
         expect(typeof shadowTokens[0].value).toBe('string');
       }
     });
+
+    it('should parse shadow layers into components', () => {
+      const shadow = registry.findTokenByCssVariable('--shadow-border') as ShadowToken;
+
+      expect(shadow.components).toHaveLength(3);
+      expect(shadow.components?.[1]).toEqual({
+        inset: false,
+        x: '0px',
+        y: '2px',
+        blur: '4px',
+        spread: '0px',
+        color: 'rgba(0, 0, 0, 0.05)'
+      });
+    });
+
+    describe('Fuzzy matching', () => {
+      let shadowRegistry: TokenRegistry;
+
+      beforeAll(async () => {
+        shadowRegistry = new TokenRegistry({
+          cssContent: `:root {
+            --shadow-sm: 0px 2px 4px #0000001a;
+            --shadow-lg: 0px 8px 16px rgba(0, 0, 0, 0.2), 0px 2px 4px rgba(0, 0, 0, 0.1);
+            --shadow-inner: inset 0 2px 4px rgba(0, 0, 0, 0.1);
+          }`
+        });
+        await shadowRegistry.initialize();
+      });
+
+      it('should match shadows written in a different format', () => {
+        const match = shadowRegistry.findBestMatch('0 2px 4px rgba(0,0,0,.1)', 'shadow');
+
+        expect(match?.token.name).toBe('sm');
+        expect(match?.confidence).toBe(1);
+        expect(shadowRegistry.findBestMatch('rgba(0,0,0,.1) 0 2px 4px inset', 'shadow')?.token.name).toBe('inner');
+      });
+
+      it('should match Tailwind arbitrary shadows', () => {
+        const match = shadowRegistry.findBestMatch('0_2px_4px_rgba(0,0,0,.1)', 'shadow');
+
+        expect(match?.token.name).toBe('sm');
+        expect(match?.confidence).toBe(1);
+        expect(shadowRegistry.findBestMatch('inset_0_2px_4px_rgba(0,0,0,0.1)', 'shadow')?.token.name).toBe('inner');
+      });
+
+      it('should score near shadows by geometry and color', () => {
+        const match = shadowRegistry.findBestMatch('0 2px 5px rgba(0, 0, 0, 0.1)', 'shadow', { threshold: 0 });
+
+        expect(match?.token.name).toBe('sm');
+        expect(match?.confidence).toBeCloseTo(1 - 1 / 7, 3);
+        expect(shadowRegistry.findBestMatch('0 2px 5px rgba(0, 0, 0, 0.1)', 'shadow', { exact: true })).toBeNull();
+      });
+
+      it('should compare every layer', () => {
+        const match = shadowRegistry.findBestMatch(
+          '0 8px 16px rgba(0, 0, 0, 0.2), 0 2px 4px rgba(0, 0, 0, 0.1)',
+          'shadow'
+        );
+        expect(match?.token.name).toBe('lg');
+        expect(match?.confidence).toBe(1);
+
+        // A missing layer halves the score
+        const partial = shadowRegistry.findBestMatch('0 8px 16px rgba(0, 0, 0, 0.2)', 'shadow', { threshold: 0 });
+        expect(partial?.token.name).toBe('lg');
+        expect(partial?.confidence).toBeCloseTo(0.5, 3);
+      });
+    });
   });
 
   describe('Token Lookup', () => {
@@ -169,6 +392,24 @@ describe('TokenRegistry', () => {
       expect(token?.category).toBe('color');
     });
 
+    it('should find tokens by any of their Tailwind classes', () => {
+      const token = registry.findTokenByName('color-border');
+      
+      expect(token?.tailwindClasses).toMatchObject({
+        bg: 'bg-border',
+        text: 'text-border',
+        border: 'border-border',
+        fill: 'fill-border',
+        ring: 'ring-border'
+      });
+      expect(registry.findTokenByName('ring-border')).toBe(token);
+      expect(registry.findTokenByName('fill-border')).toBe(token);
+      expect(registry.findTokenByName('olivia-blue')?.tailwindClasses).toBeUndefined();
+      // Spacing and radius variables are declared in :root rather than @theme
+      expect(registry.findTokenByName('gap-x-sm')).toBeUndefined();
+      expect(registry.findTokenByCssVariable('--border-radius-3xs')?.tailwindKey).toBeUndefined();
+    });
+
     it('should find best match across categories', () => {
       // Test with a border radius value
       const match = registry.findBestMatch('0.5rem');
@@ -178,4 +419,189 @@ describe('TokenRegistry', () => {
       expect(match?.confidence).toBe(1);
     });
   });
-});
\ No newline at end of file
+
+  describe('Alias Tokens', () => {
+    it('should resolve semantic tokens defined as var() references', () => {
+      const token = registry.findTokenByCssVariable('--color-background') as ColorToken;
+      const white = registry.findTokenByCssVariable('--white') as ColorToken;
+      
+      expect(token).toBeDefined();
+      expect(token.category).toBe('color');
+      expect(token.value.hex).toBe(white.value.hex);
+      expect(token.aliasOf).toBe('--white');
+      expect(token.aliasChain).toEqual(['--white']);
+    });
+
+    it('should resolve typography aliases using the target property', () => {
+      const token = registry.findTokenByName('text-h1') as TypographyToken;
+      
+      expect(token).toBeDefined();
+      expect(token.value.fontSize).toBe('1.25rem');
+      expect(token.value.lineHeight).toBe('1.75rem');
+    });
+
+    it('should resolve references embedded in a value', () => {
+      const token = registry.findTokenByCssVariable('--shadow-border-hover');
+      
+      expect(token?.value).not.toContain('var(');
+      expect(token?.value).toContain('oklch(');
+    });
+
+    it('should follow alias chains and fallbacks', async () => {
+      const aliasRegistry = new TokenRegistry({
+        cssContent: `
+          :root {
+            --blue-500: #3b82f6;
+            --color-primary: var(--blue-500);
+            --color-button-bg: var(--color-primary);
+            --color-link: var(--color-missing, var(--blue-500));
+            --color-muted: var(--color-missing, #6b7280);
+          }
+        `
+      });
+      await aliasRegistry.initialize();
+      
+      const button = aliasRegistry.findTokenByCssVariable('--color-button-bg') as ColorToken;
+      expect(button.value.hex).toBe('#3b82f6');
+      expect(button.aliasOf).toBe('--color-primary');
+      expect(button.aliasChain).toEqual(['--color-primary', '--blue-500']);
+      
+      const link = aliasRegistry.findTokenByCssVariable('--color-link') as ColorToken;
+      expect(link.value.hex).toBe('#3b82f6');
+      expect(link.aliasOf).toBe('--color-missing');
+      
+      const muted = aliasRegistry.findTokenByCssVariable('--color-muted') as ColorToken;
+      expect(muted.value.hex).toBe('#6b7280');
+    });
+
+    it('should categorize aliases by their target and prefer them over primitives', async () => {
+      const aliasRegistry = new TokenRegistry({
+        cssContent: `
+          :root {
+            --color-blue-500: #3b82f6;
+            --spacing-md: 24px;
+            --color-button-bg: var(--color-blue-500);
+            --gap: var(--spacing-md);
+          }
+        `
+      });
+      await aliasRegistry.initialize();
+      
+      expect(aliasRegistry.findTokenByCssVariable('--gap')?.category).toBe('spacing');
+      expect(aliasRegistry.findBestMatch('#3b82f6', 'color')?.token.cssVariable).toBe('--color-button-bg');
+      expect(aliasRegistry.findBestMatch('#3b82f7', 'color')?.token.cssVariable).toBe('--color-button-bg');
+      expect(aliasRegistry.findBestMatch('24px', 'spacing')?.token.cssVariable).toBe('--gap');
+      expect(aliasRegistry.findBestMatch('1.5rem', 'spacing')?.token.cssVariable).toBe('--gap');
+    });
+
+    it('should skip circular and undefined references', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const cycleRegistry = new TokenRegistry({
+        cssContent: `
+          :root {
+            --color-a: var(--color-b);
+            --color-b: var(--color-a);
+            --color-c: var(--color-undefined);
+            --color-d: #ffffff;
+          }
+        `
+      });
+      await cycleRegistry.initialize();
+      
+      expect(cycleRegistry.getTokenCounts().color).toBe(1);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Circular var() reference: --color-a -> --color-b -> --color-a'));
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Undefined variable --color-undefined'));
+      warn.mockRestore();
+    });
+  });
+
+  describe('Token Modes', () => {
+    const modeCss = `
+      :root {
+        --white: #ffffff;
+        --black: #000000;
+        --color-surface: var(--white);
+        --color-text: #111827;
+        --spacing-gutter: 16px;
+      }
+
+      [data-theme="dark"] {
+        --white: #0a0a0a;
+        --color-text: #f9fafb;
+      }
+
+      @media (prefers-color-scheme: light) {
+        :root {
+          --spacing-gutter: 12px;
+        }
+      }
+    `;
+    let modeRegistry: TokenRegistry;
+
+    beforeAll(async () => {
+      modeRegistry = new TokenRegistry({ cssContent: modeCss });
+      await modeRegistry.initialize();
+    });
+
+    it('should keep base values when a mode overrides a variable', () => {
+      const text = modeRegistry.findTokenByCssVariable('--color-text') as ColorToken;
+      
+      expect(modeRegistry.getModes()).toEqual(['dark', 'light']);
+      expect(text.value.hex).toBe('#111827');
+      expect(text.modes?.dark.hex).toBe('#f9fafb');
+      expect(text.modeConditions?.dark).toEqual(['[data-theme="dark"]']);
+    });
+
+    it('should resolve aliases separately in each mode', () => {
+      const surface = modeRegistry.findTokenByCssVariable('--color-surface') as ColorToken;
+      
+      expect(surface.value.hex).toBe('#ffffff');
+      expect(surface.modes?.dark.hex).toBe('#0a0a0a');
+    });
+
+    it('should track media query conditions', () => {
+      const gutter = modeRegistry.findTokenByCssVariable('--spacing-gutter') as SpacingToken;
+      
+      expect(gutter.value).toBe('16px');
+      expect(gutter.modes).toEqual({ light: '12px' });
+      expect(gutter.modeConditions?.light).toEqual(['@media (prefers-color-scheme: light) :root']);
+    });
+
+    it('should record every condition declaring a mode', async () => {
+      const registry = new TokenRegistry({
+        cssContent: `
+          :root { --color-text: #111827; }
+          .dark { --color-text: #f9fafb; }
+          @media (prefers-color-scheme: dark) {
+            :root { --color-text: #f9fafb; }
+          }
+        `
+      });
+      await registry.initialize();
+      
+      const text = registry.findTokenByCssVariable('--color-text') as ColorToken;
+      expect(registry.getModes()).toEqual(['dark']);
+      expect(text.modeConditions?.dark).toEqual(['.dark', '@media (prefers-color-scheme: dark) :root']);
+    });
+
+    it('should match against a chosen mode', () => {
+      expect(modeRegistry.findClosestColorMatch('#f9fafb', { exact: true })).toBeNull();
+      
+      const match = modeRegistry.findClosestColorMatch('#f9fafb', { exact: true, mode: 'dark' });
+      expect(match?.token.cssVariable).toBe('--color-text');
+      expect(match?.mode).toBe('dark');
+      
+      // Tokens without an override match their base value in any mode
+      expect(modeRegistry.findBestMatch('16px', 'spacing', { mode: 'dark' })?.token.cssVariable)
+        .toBe('--spacing-gutter');
+    });
+
+    it('should match against all modes', () => {
+      const match = modeRegistry.findBestMatch('12px', 'spacing', { mode: 'all' });
+      
+      expect(match?.token.cssVariable).toBe('--spacing-gutter');
+      expect(match?.mode).toBe('light');
+      expect(modeRegistry.findBestMatch('12px', 'spacing')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for the DTCG token loader
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseDtcgTokens } from '../../src/core/dtcgLoader.js';
+import { TokenRegistry } from '../../src/core/TokenRegistry.js';
+import { ColorToken, ShadowToken, TypographyToken } from '../../src/core/types.js';
+
+// Get the current directory
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Path to the DTCG fixture
+const dtcgPath = path.resolve(__dirname, '../fixtures/tokens.tokens.json');
+
+describe('parseDtcgTokens', () => {
+  it('should resolve aliases and inherited types', () => {
+    const definitions = parseDtcgTokens({
+      color: {
+        $type: 'color',
+        base: { $value: '#ff0000' },
+        alias: { $value: '{color.base}' }
+      },
+      other: { $value: '{color.alias}' }
+    });
+
+    expect(definitions).toEqual([
+      { cssVariable: '--color-base', category: 'color', value: '#ff0000' },
+      { cssVariable: '--color-alias', category: 'color', value: '#ff0000' },
+      { cssVariable: '--other', category: 'color', value: '#ff0000' }
+    ]);
+  });
+
+  it('should classify dimensions by their path or Tokens Studio type', () => {
+    const definitions = parseDtcgTokens({
+      $type: 'dimension',
+      space: { card: { $value: '16px' } },
+      radii: { pill: { $value: '999px' } },
+      fontSize: { body: { $value: '1rem' } },
+      'letter-spacing': { wide: { $value: '0.05em' } },
+      border: { width: { thin: { $value: '1px' } } },
+      brand: { gutter: { $value: '24px', $extensions: { 'studio.tokens': { type: 'spacing' } } } }
+    });
+
+    expect(definitions).toEqual([
+      { cssVariable: '--space-card', category: 'spacing', value: '16px' },
+      { cssVariable: '--radii-pill', category: 'borderRadius', value: '999px' },
+      { cssVariable: '--fontSize-body', category: 'typography', value: { fontSize: '1rem' } },
+      { cssVariable: '--letter-spacing-wide', category: 'typography', value: { letterSpacing: '0.05em' } },
+      { cssVariable: '--brand-gutter', category: 'spacing', value: '24px' }
+    ]);
+  });
+
+  it('should skip tokens with circular or unknown aliases', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const definitions = parseDtcgTokens({
+      a: { $type: 'color', $value: '{b}' },
+      b: { $type: 'color', $value: '{a}' },
+      c: { $type: 'color', $value: '{core.missing}' },
+      d: { $type: 'color', $value: '#ffffff' }
+    });
+
+    expect(definitions).toEqual([{ cssVariable: '--d', category: 'color', value: '#ffffff' }]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Circular DTCG alias: a -> b -> a'));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown DTCG alias {core.missing} in c'));
+    warn.mockRestore();
+  });
+
+  it('should report invalid JSON', () => {
+    expect(() => parseDtcgTokens('{ not json')).toThrow('Failed to parse DTCG tokens');
+  });
+});
+
+describe('TokenRegistry with DTCG tokens', () => {
+  let registry: TokenRegistry;
+
+  beforeAll(async () => {
+    registry = new TokenRegistry({ dtcgPath });
+    await registry.initialize();
+  });
+
+  it('should fill each token category', () => {
+    expect(registry.getTokenCounts()).toEqual({
+      color: 3,
+      typography: 2,
+      spacing: 2,
+      borderRadius: 1,
+      shadow: 1
+    });
+  });
+
+  it('should create color tokens with descriptions', () => {
+    const primary = registry.findTokenByCssVariable('--color-brand-primary') as ColorToken;
+    const secondary = registry.findTokenByCssVariable('--color-brand-secondary') as ColorToken;
+    const button = registry.findTokenByCssVariable('--color-button-background') as ColorToken;
+
+    expect(primary.name).toBe('brand-primary');
+    expect(primary.description).toBe('Primary brand color for buttons and links');
+    expect(secondary.value.hex).toBe('#0080ff');
+    expect(button.value.hex).toBe('#25c9d0');
+  });
+
+  it('should format dimensions, shadows and typography', () => {
+    expect(registry.findBestMatch('1rem', 'spacing')?.token.cssVariable).toBe('--spacing-md');
+    expect(registry.findBestMatch('4px', 'borderRadius')?.token.cssVariable).toBe('--border-radius-sm');
+
+    const shadow = registry.findTokenByCssVariable('--shadow-card') as ShadowToken;
+    expect(shadow.value).toBe('0px 1px 2px 0px #0000001a, inset 0px 4px 8px 0px #25c9d0');
+    expect(shadow.components).toHaveLength(2);
+    expect(shadow.components?.[1].inset).toBe(true);
+
+    const heading = registry.findTokenByCssVariable('--heading-h1') as TypographyToken;
+    expect(heading.description).toBe('Page headings');
+    expect(heading.value).toEqual({
+      fontFamily: '"Open Sans", sans-serif',
+      fontSize: '1.25rem',
+      fontWeight: 600,
+      lineHeight: 1.4,
+      letterSpacing: '0px'
+    });
+  });
+
+  it('should combine CSS and DTCG sources', async () => {
+    const combined = new TokenRegistry({
+      cssContent: ':root { --spacing-lg: 2rem; }',
+      dtcgContent: JSON.stringify({ spacing: { $type: 'dimension', xl: { $value: '3rem' } } })
+    });
+    await combined.initialize();
+
+    expect(combined.getTokenCounts().spacing).toBe(2);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for the module resolver
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ModuleResolver } from '../../src/core/moduleResolver.js';
+
+describe('ModuleResolver', () => {
+  let tempDir: string;
+  let rootDir: string;
+  let componentPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'token-transformer-'));
+    rootDir = path.join(tempDir, 'project');
+    componentPath = path.join(rootDir, 'components', 'Button.tsx');
+
+    await fs.mkdir(path.join(rootDir, 'components'), { recursive: true });
+    await fs.mkdir(path.join(rootDir, 'theme'));
+    await fs.writeFile(componentPath, '');
+    await fs.writeFile(path.join(rootDir, 'components', 'styles.ts'), `export const base = { color: '#333' };\n`);
+    await fs.writeFile(path.join(rootDir, 'theme', 'index.js'), '');
+    await fs.writeFile(path.join(tempDir, 'outside.ts'), '');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should resolve specifiers with or without extensions', () => {
+    const resolver = new ModuleResolver(rootDir);
+    const stylesPath = path.join(rootDir, 'components', 'styles.ts');
+
+    expect(resolver.resolve('./styles', componentPath)).toBe(stylesPath);
+    expect(resolver.resolve('./styles.ts', componentPath)).toBe(stylesPath);
+    expect(resolver.resolve('./styles.js', componentPath)).toBe(stylesPath);
+  });
+
+  it('should resolve directories to their index file', () => {
+    const resolver = new ModuleResolver(rootDir);
+
+    expect(resolver.resolve('../theme', componentPath)).toBe(path.join(rootDir, 'theme', 'index.js'));
+  });
+
+  it('should not resolve packages, missing files or files outside the root', () => {
+    const resolver = new ModuleResolver(rootDir);
+
+    expect(resolver.resolve('react', componentPath)).toBeNull();
+    expect(resolver.resolve('./missing', componentPath)).toBeNull();
+    expect(resolver.resolve('../../outside', componentPath)).toBeNull();
+  });
+
+  it('should read module sources', () => {
+    const resolver = new ModuleResolver(rootDir);
+    const stylesPath = resolver.resolve('./styles', componentPath)!;
+
+    expect(resolver.readSource(stylesPath)).toContain(`color: '#333'`);
+    expect(resolver.readSource(path.join(rootDir, 'missing.ts'))).toBeNull();
+  });
+});
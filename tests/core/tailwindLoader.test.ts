@@ -0,0 +1,148 @@
+/**
+ * Tests for the Tailwind theme loader
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { parseTailwindTheme } from '../../src/core/tailwindLoader.js';
+import { TokenRegistry } from '../../src/core/TokenRegistry.js';
+import { TailwindConfig } from '../../src/core/types.js';
+
+const config: TailwindConfig = {
+  theme: {
+    colors: {
+      white: '#ffffff',
+      current: 'currentColor',
+      gray: {
+        100: '#f3f4f6',
+        DEFAULT: '#6b7280'
+      },
+      brand: 'rgb(var(--brand) / <alpha-value>)'
+    },
+    spacing: {
+      '0.5': '0.125rem',
+      4: '1rem'
+    },
+    borderRadius: {
+      DEFAULT: '0.25rem',
+      lg: '0.5rem'
+    },
+    extend: {
+      colors: {
+        primary: '#25c9d0'
+      },
+      boxShadow: {
+        card: '0 1px 2px rgba(0, 0, 0, 0.1)'
+      },
+      fontSize: {
+        sm: ['0.875rem', { lineHeight: '1.25rem', letterSpacing: '0.01em' }],
+        base: ['1rem', '1.5rem'],
+        lg: '1.125rem'
+      },
+      fontFamily: {
+        sans: ['Open Sans', 'sans-serif']
+      }
+    }
+  }
+};
+
+describe('parseTailwindTheme', () => {
+  it('should flatten color palettes and skip dynamic values', () => {
+    const colors = parseTailwindTheme(config).filter(definition => definition.category === 'color');
+
+    expect(colors.map(color => [color.name, color.value, color.tailwindClass])).toEqual([
+      ['white', '#ffffff', 'text-white'],
+      ['gray-100', '#f3f4f6', 'text-gray-100'],
+      ['gray', '#6b7280', 'text-gray'],
+      ['primary', '#25c9d0', 'text-primary']
+    ]);
+  });
+
+  it('should merge extended palettes into the base palette', () => {
+    const colors = parseTailwindTheme({
+      theme: {
+        colors: { gray: { 100: '#f3f4f6', 200: '#e5e7eb' } },
+        extend: { colors: { gray: { 200: '#e4e4e7', 950: '#030712' } } }
+      }
+    });
+
+    expect(colors.map(color => [color.name, color.value])).toEqual([
+      ['gray-100', '#f3f4f6'],
+      ['gray-200', '#e4e4e7'],
+      ['gray-950', '#030712']
+    ]);
+  });
+
+  it('should map each section to its utility class', () => {
+    const definitions = parseTailwindTheme(config);
+    const classes = definitions.map(definition => definition.tailwindClass);
+
+    expect(classes).toEqual(expect.arrayContaining([
+      'p-0.5',
+      'p-4',
+      'rounded',
+      'rounded-lg',
+      'shadow-card',
+      'text-sm',
+      'font-sans'
+    ]));
+    expect(definitions.find(definition => definition.name === '0.5')?.themePath).toBe('spacing[0.5]');
+    expect(definitions.find(definition => definition.name === 'gray-100')?.themePath).toBe('colors.gray.100');
+    expect(definitions.find(definition => definition.name === 'gray')?.themePath).toBe('colors.gray.DEFAULT');
+    expect(definitions.every(definition => definition.cssVariable === undefined)).toBe(true);
+  });
+
+  it('should parse fontSize tuples into typography values', () => {
+    const definitions = parseTailwindTheme(config);
+
+    expect(definitions.find(definition => definition.name === 'text-sm')?.value).toEqual({
+      fontSize: '0.875rem',
+      lineHeight: '1.25rem',
+      letterSpacing: '0.01em'
+    });
+    expect(definitions.find(definition => definition.name === 'text-base')?.value).toEqual({
+      fontSize: '1rem',
+      lineHeight: '1.5rem'
+    });
+    expect(definitions.find(definition => definition.name === 'font-sans')?.value).toEqual({
+      fontFamily: '"Open Sans", sans-serif'
+    });
+  });
+});
+
+describe('TokenRegistry with a Tailwind theme', () => {
+  let registry: TokenRegistry;
+
+  beforeAll(async () => {
+    registry = new TokenRegistry({ tailwindConfig: config });
+    await registry.initialize();
+  });
+
+  it('should fill each token category', () => {
+    expect(registry.getTokenCounts()).toEqual({
+      color: 4,
+      typography: 4,
+      spacing: 2,
+      borderRadius: 2,
+      shadow: 1
+    });
+  });
+
+  it('should match arbitrary values against the theme', () => {
+    expect(registry.findBestMatch('#25c9d0', 'color')?.token.tailwindClass).toBe('text-primary');
+    expect(registry.findBestMatch('1rem', 'spacing')?.token.tailwindClass).toBe('p-4');
+    expect(registry.findBestMatch('0.25rem', 'borderRadius')?.token.tailwindClass).toBe('rounded');
+    expect(registry.findTokenByName('p-0.5')?.name).toBe('0.5');
+  });
+
+  it('should map each utility to its class', () => {
+    expect(registry.findTokenByName('border-gray-100')?.tailwindClasses).toMatchObject({
+      bg: 'bg-gray-100',
+      border: 'border-gray-100',
+      stroke: 'stroke-gray-100'
+    });
+    expect(registry.findTokenByName('rounded-t')?.tailwindClasses?.rounded).toBe('rounded');
+    expect(registry.findTokenByName('mx-4')?.name).toBe('4');
+    expect(registry.findTokenByName('font-sans')?.tailwindClasses).toEqual({ font: 'font-sans' });
+    expect(registry.findTokenByName('text-sm')?.tailwindClasses).toEqual({ text: 'text-sm' });
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Tests for JsxStyleMatcher
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { JsxStyleMatcher } from '../../src/matchers/JsxStyleMatcher.js';
+import { ModuleResolver } from '../../src/core/moduleResolver.js';
+
+describe('JsxStyleMatcher', () => {
+  const matcher = new JsxStyleMatcher();
+
+  describe('Basic functionality', () => {
+    it('should identify inline style colors', () => {
+      const source = `
+        <div style={{ color: '#ff0000', backgroundColor: 'rgb(0, 128, 255)' }}>
+          Colored text
+        </div>
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results).toHaveLength(2);
+      expect(results[0].value).toBe('#ff0000');
+      expect(results[0].property).toBe('color');
+      expect(results[0].scope).toBe('style');
+      expect(results[0].path).toEqual(['style', 'color']);
+      expect(results[1].value).toBe('rgb(0, 128, 255)');
+      expect(results[1].property).toBe('backgroundColor');
+    });
+
+    it('should identify modern and named color formats', () => {
+      const source = `
+        <div style={{
+          color: 'rebeccapurple',
+          backgroundColor: 'oklch(70% 0.1 200 / 50%)',
+          borderColor: 'color(display-p3 1 0 0)',
+          outlineColor: 'inherit'
+        }} />
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(result => result.value)).toEqual([
+        'rebeccapurple',
+        'oklch(70% 0.1 200 / 50%)',
+        'color(display-p3 1 0 0)'
+      ]);
+    });
+
+    it('should report exact locations of the values', () => {
+      const source = `<Button style={{ padding: "12px", color: '#333' }}>Go</Button>`;
+
+      const results = matcher.match(source);
+
+      expect(results).toHaveLength(2);
+      for (const result of results) {
+        expect(source.substring(result.location.start, result.location.end)).toBe(result.value);
+        expect(result.context.element).toBe('Button');
+      }
+      expect(results[0].location.line).toBe(1);
+      expect(results[0].location.column).toBe(28);
+    });
+
+    it('should handle style objects defined as variables', () => {
+      const source = `
+        const buttonStyle = {
+          fontFamily: 'Inter; sans-serif',
+          backgroundColor: '#0088ff',
+          padding: '10px'
+        };
+        return <button style={buttonStyle}>Blue Button</button>;
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.value)).toEqual(['#0088ff', '10px']);
+      expect(results[0].path).toEqual(['buttonStyle', 'style', 'backgroundColor']);
+      expect(results[0].context.element).toBe('button');
+    });
+  });
+
+  describe('Edge cases', () => {
+    it('should resolve style variables through lexical scope', () => {
+      const source = `
+        function Primary() {
+          const styles = { color: '#111111' };
+          return <button style={styles} />;
+        }
+
+        function Secondary({ theme }) {
+          const styles = { color: '#222222' };
+          return <>
+            <button style={styles} />
+            <span style={theme} />
+          </>;
+        }
+
+        const theme = { color: '#333333' };
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.value)).toEqual(['#111111', '#222222']);
+    });
+
+    it('should handle nested style objects', () => {
+      const source = `
+        <div style={{
+          color: '#333',
+          ':hover': {
+            color: '#f00',
+            backgroundColor: '#eee'
+          }
+        }}>
+          Hover me
+        </div>
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.value)).toEqual(['#333', '#f00', '#eee']);
+      expect(results[1].path).toEqual(['style', ':hover', 'color']);
+    });
+
+    it('should ignore comments and multi-line formatting', () => {
+      const source = `
+        <div
+          style={{
+            // color: '#123456',
+            boxShadow:
+              '0px 4px 8px rgba(0, 0, 0, 0.2)', /* primary, shadow */
+            borderRadius: \`8px\`
+          }}
+        />
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results).toHaveLength(2);
+      expect(results[0].type).toBe('shadow');
+      expect(results[0].value).toBe('0px 4px 8px rgba(0, 0, 0, 0.2)');
+      expect(results[1].type).toBe('borderRadius');
+      expect(results[1].value).toBe('8px');
+    });
+
+    it('should match both branches of conditional values', () => {
+      const source = `<div style={{ color: isActive ? '#f00' : '#999', padding: size + 'px' }} />`;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.value)).toEqual(['#f00', '#999']);
+    });
+
+    it('should skip template literals with interpolations', () => {
+      const source = `<div style={{ backgroundColor: \`rgb(\${r}, \${g}, \${b})\` }} />`;
+
+      expect(matcher.match(source)).toHaveLength(0);
+    });
+
+    it('should not report token references that contain color names', () => {
+      const source = `<div style={{ color: 'var(--olivia-blue)', backgroundColor: 'color-mix(in oklab, var(--red) 50%, transparent)', borderColor: 'navy' }} />`;
+
+      expect(matcher.match(source).map(r => r.value)).toEqual(['navy']);
+    });
+
+    it('should respect type and scope options', () => {
+      const source = `<div style={{ color: '#fff', margin: '4px' }} />`;
+
+      expect(matcher.match(source, { types: ['spacing'] }).map(r => r.value)).toEqual(['4px']);
+      expect(matcher.match(source, { scopeLimit: ['className'] })).toHaveLength(0);
+    });
+  });
+
+  describe('References', () => {
+    it('should follow spreads into other style objects', () => {
+      const source = `
+        const baseStyles = { padding: '8px', color: '#333' };
+        const cardStyles = { ...baseStyles, color: '#f00' };
+        return <div style={{ ...cardStyles, margin: '4px' }} />;
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.value)).toEqual(['8px', '#333', '#f00', '4px']);
+      expect(results[0].path).toEqual(['style', 'padding']);
+      expect(source.substring(results[0].location.start, results[0].location.end)).toBe('8px');
+    });
+
+    it('should report shared style objects once', () => {
+      const source = `
+        const base = { color: '#333' };
+        return <>
+          <a style={{ ...base, padding: '4px' }} />
+          <b style={base} />
+        </>;
+      `;
+
+      expect(matcher.match(source).map(r => r.value)).toEqual(['#333', '4px']);
+    });
+
+    it('should follow useMemo and property access', () => {
+      const source = `
+        const styles = { button: { backgroundColor: '#0088ff' } };
+        const memoized = useMemo(() => ({ padding: '10px' }), []);
+        const computed = React.useMemo(() => {
+          const unused = 1;
+          return { ...styles.button, margin: '2px' };
+        }, [unused]);
+        return <>
+          <button style={styles.button} />
+          <div style={memoized} />
+          <span style={computed} />
+        </>;
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.value)).toEqual(['#0088ff', '10px', '2px']);
+      expect(results[0].path).toEqual(['styles.button', 'style', 'backgroundColor']);
+    });
+
+    it('should only follow useMemo callbacks with a single return', () => {
+      const source = `
+        const nested = useMemo(() => {
+          const pick = () => { return { color: '#111' }; };
+          if (ready) {
+            return { padding: '4px' };
+          }
+        }, [ready]);
+        const branched = useMemo(() => {
+          if (dark) {
+            return { color: '#000' };
+          }
+          return { color: '#fff' };
+        }, [dark]);
+        return <>
+          <div style={nested} />
+          <div style={branched} />
+        </>;
+      `;
+
+      expect(matcher.match(source).map(r => r.value)).toEqual(['4px']);
+    });
+
+    it('should not loop on self-referencing objects', () => {
+      const source = `
+        const a = { ...b, color: '#111' };
+        const b = { ...a, padding: '4px' };
+        return <div style={a} />;
+      `;
+
+      expect(matcher.match(source).map(r => r.value)).toEqual(['#111', '4px']);
+    });
+
+    describe('Imported modules', () => {
+      let tempDir: string;
+      let componentPath: string;
+      let stylesPath: string;
+
+      beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'token-transformer-'));
+        componentPath = path.join(tempDir, 'Button.tsx');
+        stylesPath = path.join(tempDir, 'styles.ts');
+
+        await fs.writeFile(stylesPath, [
+          `import { spacing } from './spacing.js';`,
+          `const base = { ...spacing, color: '#333' };`,
+          `export { base as baseStyles };`,
+          `export const accent = { backgroundColor: '#0088ff' };`,
+          `export default { borderRadius: '4px' };`
+        ].join('\n'));
+        await fs.writeFile(path.join(tempDir, 'spacing.ts'), `export const spacing = { padding: '8px' };\n`);
+      });
+
+      afterEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      });
+
+      it('should follow named, default and namespace imports', () => {
+        const source = [
+          `import card, { baseStyles } from './styles';`,
+          `import * as styles from './styles';`,
+          `export const Button = () => <>`,
+          `  <button style={{ ...baseStyles, margin: '2px' }} />`,
+          `  <a style={styles.accent} />`,
+          `  <div style={card} />`,
+          `</>;`
+        ].join('\n');
+
+        const results = matcher.match(source, {
+          filePath: componentPath,
+          moduleResolver: new ModuleResolver(tempDir)
+        });
+
+        expect(results.map(r => [r.value, r.filePath])).toEqual([
+          ['2px', undefined],
+          ['8px', path.join(tempDir, 'spacing.ts')],
+          ['#333', stylesPath],
+          ['#0088ff', stylesPath],
+          ['4px', stylesPath]
+        ]);
+      });
+
+      it('should locate imported values in the module defining them', async () => {
+        const source = `import { baseStyles } from './styles';\n<button style={baseStyles} />`;
+        const stylesSource = await fs.readFile(stylesPath, 'utf-8');
+
+        const [result] = matcher.match(source, {
+          filePath: componentPath,
+          moduleResolver: new ModuleResolver(tempDir),
+          types: ['color']
+        });
+
+        expect(stylesSource.substring(result.location.start, result.location.end)).toBe('#333');
+        expect(result.location.line).toBe(2);
+        expect(result.context.line).toBe(`const base = { ...spacing, color: '#333' };`);
+        expect(result.context.element).toBe('button');
+      });
+
+      it('should not follow imports without a module resolver', () => {
+        const source = `import { baseStyles } from './styles';\n<button style={baseStyles} />`;
+
+        expect(matcher.match(source, { filePath: componentPath })).toHaveLength(0);
+      });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for StyledComponentMatcher
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StyledComponentMatcher } from '../../src/matchers/StyledComponentMatcher.js';
+
+describe('StyledComponentMatcher', () => {
+  const matcher = new StyledComponentMatcher();
+
+  describe('Basic functionality', () => {
+    it('should identify values in styled templates', () => {
+      const source = `
+        const Button = styled.button\`
+          color: #25C9D0;
+          padding: 8px 16px;
+          border-radius: 4px;
+          box-shadow: 0px 2px 4px rgba(0, 0, 0, 0.1);
+          font-size: 14px;
+        \`;
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.type)).toEqual(['color', 'spacing', 'borderRadius', 'shadow', 'typography']);
+      expect(results[0].value).toBe('#25C9D0');
+      expect(results[0].property).toBe('color');
+      expect(results[0].scope).toBe('styledComponent');
+      expect(results[0].context.element).toBe('button');
+      expect(results[0].path).toEqual(['Button', 'color']);
+      expect(results[2].property).toBe('borderRadius');
+      expect(results[2].metadata?.cssProperty).toBe('border-radius');
+    });
+
+    it('should report exact locations of the values', () => {
+      const source = 'const Box = styled(Card)`\n  background-color: #fff !important;\n  margin: 1rem\n`;';
+
+      const results = matcher.match(source);
+
+      expect(results).toHaveLength(2);
+      for (const result of results) {
+        expect(source.substring(result.location.start, result.location.end)).toBe(result.value);
+      }
+      expect(results[0].value).toBe('#fff');
+      expect(results[0].location.line).toBe(2);
+      expect(results[0].context.element).toBe('Card');
+      expect(results[1].value).toBe('1rem');
+    });
+
+    it('should handle css helpers and chained tags', () => {
+      const source = `
+        const base = css\`color: #111;\`;
+        const Link = styled.a.attrs({ href: '#' })\`color: #222;\`;
+        const Other = notStyled.div\`color: #333;\`;
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.value)).toEqual(['#111', '#222']);
+      expect(results[0].metadata?.tag).toBe('css');
+    });
+  });
+
+  describe('Edge cases', () => {
+    it('should skip interpolated values', () => {
+      const source = `
+        const Title = styled.h1\`
+          color: \${props => props.color};
+          margin: \${space}px 0;
+          \${mixin};
+          padding: 12px;
+        \`;
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].value).toBe('12px');
+    });
+
+    it('should skip values next to an interpolation', () => {
+      const source = `
+        const Box = styled.div\`
+          padding: \${p => p.x}px 16px;
+          margin: 4px\${unit};
+          gap: 8px \${gap};
+          border-radius: 4px;
+        \`;
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.value)).toEqual(['4px']);
+      expect(results[0].property).toBe('borderRadius');
+    });
+
+    it('should handle nested selectors and comments', () => {
+      const source = `
+        const Card = styled.div\`
+          /* color: #000; */
+          &:hover {
+            background-color: #eee;
+          }
+          @media (min-width: 768px) {
+            gap: 24px;
+          }
+        \`;
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.value)).toEqual(['#eee', '24px']);
+      expect(results[0].metadata?.selectors).toEqual(['&:hover']);
+      expect(results[1].metadata?.selectors).toEqual(['@media (min-width: 768px)']);
+    });
+
+    it('should respect the scope limit', () => {
+      const source = 'const A = styled.div`color: #fff;`;';
+
+      expect(matcher.match(source, { scopeLimit: ['style'] })).toHaveLength(0);
+    });
+  });
+});
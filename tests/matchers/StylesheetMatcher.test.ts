@@ -0,0 +1,79 @@
+/**
+ * Tests for StylesheetMatcher
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StylesheetMatcher, isStylesheetFile } from '../../src/matchers/StylesheetMatcher.js';
+
+describe('StylesheetMatcher', () => {
+  const matcher = new StylesheetMatcher();
+
+  describe('Basic functionality', () => {
+    it('should identify values in CSS rules', () => {
+      const source = `
+.button {
+  background-color: #25C9D0;
+  padding: 8px 16px;
+  border-radius: 4px;
+  font-size: 14px !important;
+}
+`;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.type)).toEqual(['color', 'spacing', 'borderRadius', 'typography']);
+      expect(results[0].value).toBe('#25C9D0');
+      expect(results[0].property).toBe('backgroundColor');
+      expect(results[0].scope).toBe('stylesheet');
+      expect(results[0].context.element).toBe('.button');
+      expect(results[3].value).toBe('14px');
+
+      for (const result of results) {
+        expect(source.substring(result.location.start, result.location.end)).toBe(result.value);
+      }
+    });
+
+    it('should skip declarations that already use variables', () => {
+      const source = `
+.card {
+  color: var(--color-text);
+  margin: $spacing-md;
+  padding: calc(#{$gap} * 2);
+  --local-color: #fff;
+  gap: 12px;
+}
+`;
+
+      const results = matcher.match(source);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].value).toBe('12px');
+    });
+
+    it('should handle nested SCSS rules and comments', () => {
+      const source = `
+// color: #000;
+.nav {
+  /* border-color: #111; */
+  &:hover {
+    color: #eee;
+  }
+}
+`;
+
+      const results = matcher.match(source);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].value).toBe('#eee');
+      expect(results[0].path).toEqual(['.nav', '&:hover', 'color']);
+    });
+  });
+
+  describe('File detection', () => {
+    it('should recognize stylesheet extensions', () => {
+      expect(isStylesheetFile('Button.module.css')).toBe(true);
+      expect(isStylesheetFile('theme.scss')).toBe(true);
+      expect(isStylesheetFile('Button.tsx')).toBe(false);
+    });
+  });
+});
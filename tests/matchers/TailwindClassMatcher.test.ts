@@ -132,6 +132,194 @@ describe('TailwindClassMatcher', () => {
     });
   });
 
+  describe('Ambiguous prefixes', () => {
+    it('should infer the utility from the value', () => {
+      const source = `<div className="text-[#333] text-[14px] border-[2px] border-[tomato] ring-[3px] ring-[rgb(0_0_0)] stroke-[1.5] shadow-[0_1px_2px_#000] shadow-[#000] bg-[url(/hero.png)]">Hi</div>`;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => [r.value, r.type, r.property])).toEqual([
+        ['#333', 'color', 'color'],
+        ['14px', 'typography', 'fontSize'],
+        ['tomato', 'color', 'borderColor'],
+        ['rgb(0_0_0)', 'color', 'ringColor'],
+        ['0_1px_2px_#000', 'shadow', 'boxShadow'],
+        ['#000', 'color', 'shadowColor']
+      ]);
+    });
+
+    it('should follow data type hints', () => {
+      const source = `<div className="text-[length:14px] text-[color:#333] border-[line-width:2px] bg-[color:#fff]">Hi</div>`;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => [r.value, r.type, r.metadata?.typeHint])).toEqual([
+        ['14px', 'typography', 'length'],
+        ['#333', 'color', 'color'],
+        ['#fff', 'color', 'color']
+      ]);
+      expect(source.substring(results[0].location.start, results[0].location.end)).toBe('14px');
+    });
+
+    it('should skip CSS variable references', () => {
+      const source = `<div className="text-[var(--fg)] bg-[var(--olivia-blue)] text-[color:var(--x)] p-[var(--gap)]">Hi</div>`;
+
+      expect(matcher.match(source)).toHaveLength(0);
+    });
+
+    it('should skip substitutions without hardcoded values', () => {
+      const source = `<div className={\`bg-[\${color}] p-[\${size}px] text-[\${dark ? '#000' : '#fff'}]\`}>Hi</div>`;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => [r.property, r.type])).toEqual([['color', 'color']]);
+    });
+  });
+
+  describe('Variants and modifiers', () => {
+    it('should record the variant stack of a class', () => {
+      const source = `<div className="hover:bg-[#fff] md:dark:border-[#111] group-hover/item:fill-[#222] [&>svg]:stroke-[#333]">Hi</div>`;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => [r.value, r.property, r.metadata?.variants])).toEqual([
+        ['#fff', 'backgroundColor', ['hover']],
+        ['#111', 'borderColor', ['md', 'dark']],
+        ['#222', 'fill', ['group-hover/item']],
+        ['#333', 'stroke', ['[&>svg]']]
+      ]);
+      expect(results[1].path).toEqual(['className', 'md:dark:border-[#111]']);
+      expect(source.substring(results[1].location.start, results[1].location.end)).toBe('#111');
+    });
+
+    it('should parse important and negative modifiers', () => {
+      const source = `<div className="!mt-[4px] -mt-[8px] sm:!-mx-[2px] pb-[1rem]!">Hi</div>`;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => [r.value, r.metadata?.important, r.metadata?.negative])).toEqual([
+        ['4px', true, false],
+        ['8px', false, true],
+        ['2px', true, true],
+        ['1rem', true, false]
+      ]);
+      expect(results[2].metadata?.variants).toEqual(['sm']);
+    });
+
+    it('should match multi-segment prefixes', () => {
+      const source = `<div className="border-t-[#eee] gap-x-[12px] rounded-tl-[6px] space-y-[4px]">Hi</div>`;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => [r.property, r.metadata?.utility])).toEqual([
+        ['borderTopColor', 'border-t-'],
+        ['columnGap', 'gap-x-'],
+        ['borderTopLeftRadius', 'rounded-tl-'],
+        ['spaceY', 'space-y-']
+      ]);
+    });
+
+    it('should group classes by variant stack', () => {
+      const results = matcher.match(`<p className="text-[14px] leading-[20px] md:text-[18px] md:leading-[28px]">Hi</p>`);
+
+      expect(new Set(results.map(r => r.group)).size).toBe(2);
+      expect(results[0].group).toBe(results[1].group);
+      expect(results[2].group).toBe(results[3].group);
+    });
+  });
+
+  describe('Class helpers', () => {
+    it('should scan strings, arrays and object keys passed to class helpers', () => {
+      const source = `
+        const classes = clsx('bg-[#111]', ['p-[4px]', isOpen && 'mt-[8px]'], { 'border-[#222]': isActive });
+        const merged = twMerge(cn('rounded-[6px]'), utils.cn(\`gap-[2px] \${extra}\`));
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => r.value)).toEqual(['#111', '4px', '8px', '#222', '6px', '2px']);
+      expect(source.substring(results[3].location.start, results[3].location.end)).toBe('#222');
+    });
+
+    it('should scan cva base classes and variants', () => {
+      const source = `
+        const button = cva('px-[12px]', {
+          variants: {
+            intent: { primary: 'bg-[#25c9d0]', secondary: ['bg-[#eee]', 'shadow-[0_1px_2px_#000]'] }
+          },
+          defaultVariants: { intent: 'primary' }
+        });
+      `;
+
+      const results = matcher.match(source);
+
+      expect(results.map(r => [r.value, r.type])).toEqual([
+        ['12px', 'spacing'],
+        ['#25c9d0', 'color'],
+        ['#eee', 'color'],
+        ['0_1px_2px_#000', 'shadow']
+      ]);
+    });
+
+    it('should scan helper calls inside className attributes', () => {
+      const source = `<Card className={cn('p-[4px]', isActive ? 'bg-[#f00]' : undefined)} />`;
+
+      const results = matcher.match(source);
+
+      expect(results).toHaveLength(2);
+      expect(results.every(r => r.context.element === 'Card')).toBe(true);
+    });
+
+    it('should ignore string literals outside class lists', () => {
+      const source = `
+        const label = 'bg-[#fff]';
+        const classes = other('p-[4px]');
+        const used = myClasses('mt-[8px]');
+      `;
+
+      expect(matcher.match(source)).toHaveLength(0);
+      expect(matcher.match(source, { classFunctions: ['myClasses'] }).map(r => r.value)).toEqual(['8px']);
+    });
+  });
+
+  describe('Default theme classes', () => {
+    it('should resolve palette and spacing classes to their values', () => {
+      const source = `<div className="flex bg-blue-500 hover:text-white -mt-3 p-px border-t-red-500 text-sm shadow-md p-13 bg-blue-500/50">Hi</div>`;
+
+      const results = matcher.match(source, { defaultTheme: true });
+
+      expect(results.map(r => [r.value, r.property, r.metadata?.themeKey])).toEqual([
+        ['#3b82f6', 'backgroundColor', 'blue-500'],
+        ['#ffffff', 'color', 'white'],
+        ['0.75rem', 'marginTop', '3'],
+        ['1px', 'padding', 'px'],
+        ['#ef4444', 'borderTopColor', 'red-500'],
+        ['#3b82f680', 'backgroundColor', 'blue-500']
+      ]);
+      expect(results[1].metadata?.variants).toEqual(['hover']);
+      expect(results[2].metadata?.negative).toBe(true);
+      expect(source.substring(results[0].location.start, results[0].location.end)).toBe('blue-500');
+      expect(results[0].path).toEqual(['className', 'bg-blue-500']);
+    });
+
+    it('should carry opacity modifiers into the color', () => {
+      const source = `<div className="bg-white/[0.25] text-red-500/[50%] w-1/2 p-4/50 hover:border-black/10!">Hi</div>`;
+
+      const results = matcher.match(source, { defaultTheme: true });
+
+      expect(results.map(r => [r.value, r.path?.[1]])).toEqual([
+        ['#ffffff40', 'bg-white/[0.25]'],
+        ['#ef444480', 'text-red-500/[50%]'],
+        ['#0000001a', 'hover:border-black/10!']
+      ]);
+      expect(results[2].metadata?.important).toBe(true);
+    });
+
+    it('should only match default theme classes when enabled', () => {
+      expect(matcher.match(`<div className="bg-blue-500 p-3">Hi</div>`)).toHaveLength(0);
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle multiple classes on a single element', () => {
       const source = `
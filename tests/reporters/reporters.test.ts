@@ -0,0 +1,168 @@
+/**
+ * Tests for audit reporters
+ */
+
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { describe, it, expect } from 'vitest';
+import { createAuditReport } from '../../src/reporters/audit.js';
+import { JsonReporter } from '../../src/reporters/JsonReporter.js';
+import { SarifReporter } from '../../src/reporters/SarifReporter.js';
+import { MarkdownReporter } from '../../src/reporters/MarkdownReporter.js';
+import { TextReporter } from '../../src/reporters/TextReporter.js';
+import { AuditEntry } from '../../src/reporters/types.js';
+import { ColorToken } from '../../src/core/types.js';
+import { createMatchLocation } from '../../src/matchers/types.js';
+
+const primary: ColorToken = {
+  name: 'primary',
+  cssVariable: '--color-primary',
+  category: 'color',
+  originalValue: '#25c9d0',
+  value: { hex: '#25c9d0', rgb: { r: 37, g: 201, b: 208 } }
+};
+
+const source = `<div style={{ color: '#25c9d1', padding: '13px' }} />`;
+
+const entries: AuditEntry[] = [
+  {
+    filePath: 'src/Card.tsx',
+    match: {
+      type: 'color',
+      value: '#25c9d1',
+      property: 'color',
+      scope: 'style',
+      context: { line: source },
+      location: createMatchLocation(source, 22, 29)
+    },
+    suggestion: { token: primary, confidence: 0.98, originalValue: '#25c9d1' }
+  },
+  {
+    filePath: 'src/Card.tsx',
+    match: {
+      type: 'spacing',
+      value: '13px',
+      property: 'padding',
+      scope: 'style',
+      context: { line: source },
+      location: createMatchLocation(source, 42, 46)
+    },
+    suggestion: null
+  }
+];
+
+const report = createAuditReport(['src/Card.tsx', 'src/Empty.tsx'], entries);
+
+describe('createAuditReport', () => {
+  it('should summarize findings', () => {
+    expect(report.summary).toEqual({
+      filesScanned: 2,
+      filesWithFindings: 1,
+      totalFindings: 2,
+      withSuggestion: 1,
+      byType: { color: 1, spacing: 1, borderRadius: 0, shadow: 0, typography: 0 }
+    });
+  });
+});
+
+describe('JsonReporter', () => {
+  it('should include locations and suggestions', () => {
+    const { summary, findings } = JSON.parse(new JsonReporter().format(report));
+
+    expect(summary.totalFindings).toBe(2);
+    expect(findings[0]).toMatchObject({
+      file: 'src/Card.tsx',
+      line: 1,
+      column: 23,
+      endLine: 1,
+      endColumn: 30,
+      value: '#25c9d1',
+      suggestion: { token: 'primary', cssVariable: '--color-primary', confidence: 0.98 }
+    });
+    expect(findings[1].suggestion).toBeNull();
+  });
+});
+
+describe('SarifReporter', () => {
+  it('should produce a SARIF 2.1.0 log', () => {
+    const log = JSON.parse(new SarifReporter().format(report));
+    const [run] = log.runs;
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.name).toBe('token-transformer');
+    expect(run.results).toHaveLength(2);
+
+    const [colorResult, spacingResult] = run.results;
+    expect(colorResult.ruleId).toBe('hardcoded-color');
+    expect(run.tool.driver.rules[colorResult.ruleIndex].id).toBe('hardcoded-color');
+    expect(colorResult.message.text).toContain('--color-primary (98% confidence)');
+    expect(colorResult.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/Card.tsx' },
+      region: { startLine: 1, startColumn: 23, endLine: 1, endColumn: 30 }
+    });
+    expect(colorResult.fixes[0].artifactChanges[0].replacements[0].insertedContent.text).toBe('var(--color-primary)');
+    expect(colorResult.properties.confidence).toBe(0.98);
+
+    expect(spacingResult.ruleId).toBe('hardcoded-spacing');
+    expect(spacingResult.fixes).toBeUndefined();
+  });
+
+  it('should use file URIs for absolute paths', () => {
+    const filePath = path.resolve('src/My Card.tsx');
+    const absoluteReport = createAuditReport([filePath], [{ ...entries[0], filePath }]);
+
+    const [result] = JSON.parse(new SarifReporter().format(absoluteReport)).runs[0].results;
+
+    expect(result.locations[0].physicalLocation.artifactLocation.uri).toBe(pathToFileURL(filePath).href);
+    expect(result.locations[0].physicalLocation.artifactLocation.uri).toMatch(/^file:\/\/.*My%20Card\.tsx$/);
+  });
+
+  it('should replace the key of a default theme class with an arbitrary value', () => {
+    const classSource = `<div className="hover:bg-cyan-400" />`;
+    const themeReport = createAuditReport(['src/Card.tsx'], [{
+      filePath: 'src/Card.tsx',
+      match: {
+        type: 'color',
+        value: '#22d3ee',
+        property: 'backgroundColor',
+        scope: 'className',
+        context: { line: classSource },
+        location: createMatchLocation(classSource, 25, 33),
+        path: ['className', 'hover:bg-cyan-400'],
+        metadata: { variants: ['hover'], important: false, negative: false, utility: 'bg-', themeKey: 'cyan-400' }
+      },
+      suggestion: { token: primary, confidence: 0.9, originalValue: '#22d3ee' }
+    }]);
+
+    const [result] = JSON.parse(new SarifReporter().format(themeReport)).runs[0].results;
+
+    expect(result.message.text).toContain(`'hover:bg-cyan-400 (#22d3ee)'`);
+    expect(result.locations[0].physicalLocation.region).toMatchObject({ startColumn: 26, endColumn: 34 });
+    expect(result.fixes[0].artifactChanges[0].replacements[0].insertedContent.text).toBe('[var(--color-primary)]');
+  });
+});
+
+describe('MarkdownReporter', () => {
+  it('should render summary and finding tables', () => {
+    const markdown = new MarkdownReporter().format(report);
+
+    expect(markdown).toContain('Found **2** hardcoded value(s) in **1** of 2 file(s). 1 have a suggested token.');
+    expect(markdown).toContain('| color | 1 |');
+    expect(markdown).toContain('| src/Card.tsx | 1 | color | color | `#25c9d1` | `--color-primary` | 98% |');
+    expect(markdown).toContain('| src/Card.tsx | 1 | spacing | padding | `13px` | - | - |');
+  });
+});
+
+describe('TextReporter', () => {
+  it('should write one line per finding', () => {
+    const text = new TextReporter().format(report);
+
+    expect(text).toBe([
+      'src/Card.tsx:1:23  color  color: #25c9d1 -> --color-primary (98%)',
+      'src/Card.tsx:1:43  spacing  padding: 13px',
+      '',
+      '2 hardcoded value(s) in 2 file(s)',
+      ''
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for unified diff generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff } from '../../src/transformers/diff.js';
+import { TransformationResult, SpacingToken } from '../../src/core/types.js';
+import { createMatchLocation } from '../../src/matchers/types.js';
+
+const token: SpacingToken = {
+  name: 'sm',
+  cssVariable: '--spacing-sm',
+  category: 'spacing',
+  value: '1rem'
+};
+
+/**
+ * Create a transformation replacing the first occurrence of a value
+ */
+function replace(source: string, value: string, transformed: string, fromIndex = 0): TransformationResult {
+  const start = source.indexOf(value, fromIndex);
+  return {
+    original: value,
+    transformed,
+    token,
+    confidence: 0.95,
+    match: {
+      type: 'spacing',
+      value,
+      property: 'padding',
+      scope: 'style',
+      context: { line: '' },
+      location: createMatchLocation(source, start, start + value.length)
+    }
+  };
+}
+
+describe('createUnifiedDiff', () => {
+  it('should create a hunk with context lines and token details', () => {
+    const source = ['a', 'b', 'c', 'd', `padding: '16px'`, 'e', 'f', 'g', 'h', ''].join('\n');
+
+    const diff = createUnifiedDiff('./src/Button.tsx', source, [replace(source, '16px', 'var(--spacing-sm)')]);
+
+    expect(diff).toBe([
+      '--- a/src/Button.tsx',
+      '+++ b/src/Button.tsx',
+      '@@ -2,7 +2,7 @@ 16px -> var(--spacing-sm) (95%)',
+      ' b',
+      ' c',
+      ' d',
+      `-padding: '16px'`,
+      `+padding: 'var(--spacing-sm)'`,
+      ' e',
+      ' f',
+      ' g',
+      ''
+    ].join('\n'));
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const lines = Array.from({ length: 20 }, (_, index) => `line ${index}`);
+    lines[1] = 'gap: 8px';
+    lines[18] = 'gap: 8px';
+    const source = lines.join('\n') + '\n';
+
+    const diff = createUnifiedDiff('a.css', source, [
+      replace(source, '8px', 'var(--spacing-sm)'),
+      replace(source, '8px', 'var(--spacing-sm)', source.indexOf('line 17'))
+    ]);
+
+    const headers = diff.split('\n').filter(line => line.startsWith('@@'));
+    expect(headers).toEqual([
+      '@@ -1,5 +1,5 @@ 8px -> var(--spacing-sm) (95%)',
+      '@@ -16,5 +16,5 @@ 8px -> var(--spacing-sm) (95%)'
+    ]);
+  });
+
+  it('should mark a missing newline at the end of the file', () => {
+    const source = `margin: 16px`;
+
+    const diff = createUnifiedDiff('a.css', source, [replace(source, '16px', 'var(--spacing-sm)')]);
+
+    expect(diff.split('\n')).toEqual([
+      '--- a/a.css',
+      '+++ b/a.css',
+      '@@ -1,1 +1,1 @@ 16px -> var(--spacing-sm) (95%)',
+      '-margin: 16px',
+      '\\ No newline at end of file',
+      '+margin: var(--spacing-sm)',
+      '\\ No newline at end of file',
+      ''
+    ]);
+  });
+
+  it('should return an empty diff when nothing changes', () => {
+    expect(createUnifiedDiff('a.css', 'a', [])).toBe('');
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Tests for the style transformer
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { TokenRegistry } from '../../src/core/TokenRegistry.js';
+import { formatTokenReference, transformStyles } from '../../src/transformers/styleTransformer.js';
+import { DesignToken } from '../../src/core/types.js';
+import { transformComponent } from '../../src/index.js';
+import { MatchResult, createMatchLocation } from '../../src/matchers/types.js';
+
+const tokensCss = `
+@theme {
+  --color-primary: #25c9d0;
+  --color-text: #333333;
+  --spacing-sm: 1rem;
+  --spacing-md: 24px;
+  --radius-sm: 4px;
+}
+`;
+
+describe('transformStyles', () => {
+  let registry: TokenRegistry;
+
+  beforeAll(async () => {
+    registry = new TokenRegistry({ cssContent: tokensCss });
+    await registry.initialize();
+  });
+
+  it('should splice token references into the source', () => {
+    const source = `<div style={{ color: '#25c9d0', padding: '24px' }} />`;
+    const matches: MatchResult[] = [
+      {
+        type: 'color',
+        value: '#25c9d0',
+        property: 'color',
+        scope: 'style',
+        context: { line: source },
+        location: createMatchLocation(source, source.indexOf('#25c9d0'), source.indexOf('#25c9d0') + 7)
+      },
+      {
+        type: 'spacing',
+        value: '24px',
+        property: 'padding',
+        scope: 'style',
+        context: { line: source },
+        location: createMatchLocation(source, source.indexOf('24px'), source.indexOf('24px') + 4)
+      }
+    ];
+
+    const { code, transformations } = transformStyles(source, matches, registry);
+
+    expect(code).toBe(`<div style={{ color: 'var(--color-primary)', padding: 'var(--spacing-md)' }} />`);
+    expect(transformations).toHaveLength(2);
+    expect(transformations[0].original).toBe('#25c9d0');
+    expect(transformations[0].transformed).toBe('var(--color-primary)');
+    expect(transformations[0].confidence).toBe(1);
+    expect(transformations[1].token.name).toBe('md');
+  });
+
+  it('should leave values without a matching token untouched', () => {
+    const source = `<div style={{ margin: '13px' }} />`;
+    const matches: MatchResult[] = [
+      {
+        type: 'spacing',
+        value: '13px',
+        property: 'margin',
+        scope: 'style',
+        context: { line: source },
+        location: createMatchLocation(source, source.indexOf('13px'), source.indexOf('13px') + 4)
+      }
+    ];
+
+    const { code, transformations } = transformStyles(source, matches, registry);
+
+    expect(code).toBe(source);
+    expect(transformations).toHaveLength(0);
+  });
+});
+
+describe('formatTokenReference', () => {
+  const token = { name: 'primary', category: 'color', cssVariable: '--color-primary' } as DesignToken;
+
+  it('should format plain and translucent token references', () => {
+    expect(formatTokenReference(token)).toBe('var(--color-primary)');
+    expect(formatTokenReference(token, { alpha: 0.5 }))
+      .toBe('color-mix(in srgb, var(--color-primary) 50%, transparent)');
+    expect(formatTokenReference(token, { alpha: 0.25, alphaFormat: 'relative-color' }))
+      .toBe('rgb(from var(--color-primary) r g b / 25%)');
+  });
+});
+
+describe('transformComponent', () => {
+  let registry: TokenRegistry;
+
+  beforeAll(async () => {
+    registry = new TokenRegistry({ cssContent: tokensCss });
+    await registry.initialize();
+  });
+
+  it('should rewrite inline styles and Tailwind arbitrary values', async () => {
+    const source = `
+      <div style={{ padding: '1rem' }}>
+        <span className="bg-[#25c9d0] rounded-[4px]">Hi</span>
+      </div>
+    `;
+
+    const { code, transformations } = await transformComponent(source, { registry });
+
+    expect(code).toContain(`padding: 'var(--spacing-sm)'`);
+    expect(code).toContain('className="bg-primary rounded-sm"');
+    expect(transformations).toHaveLength(3);
+  });
+
+  it('should only use utility classes for variables in an @theme block', async () => {
+    const rootRegistry = new TokenRegistry({
+      cssContent: ':root { --color-primary: #25c9d0; --brand: #4f46e5; --spacing-sm: 1rem; --text-h1: 1.25rem; }'
+    });
+    await rootRegistry.initialize();
+
+    const { code } = await transformComponent(
+      '<span className="bg-[#25c9d0] text-[#4f46e5] p-[16px]">Hi</span>',
+      { registry: rootRegistry }
+    );
+
+    expect(code).toBe('<span className="bg-[var(--color-primary)] text-[var(--brand)] p-[var(--spacing-sm)]">Hi</span>');
+    expect(rootRegistry.findTokenByName('text-h1')?.tailwindClass).toBeUndefined();
+  });
+
+  it('should select matchers by name', async () => {
+    const source = `<div className="bg-[#25c9d0]" style={{ padding: '1rem' }} />`;
+
+    const inline = await transformComponent(source, { registry, customMatchers: ['InlineStyleMatcher'] });
+    expect(inline.code).toBe(`<div className="bg-[#25c9d0]" style={{ padding: 'var(--spacing-sm)' }} />`);
+
+    await expect(transformComponent(source, { registry, customMatchers: ['TailwindMatcher'] }))
+      .rejects.toThrow('Unknown matcher: TailwindMatcher');
+  });
+
+  it('should use the Tailwind v4 radius namespace', async () => {
+    const radiusRegistry = new TokenRegistry({
+      cssContent: '@theme { --radius-md: 6px; --border-radius-lg: 8px; }'
+    });
+    await radiusRegistry.initialize();
+
+    const { code } = await transformComponent('<span className="rounded-[6px] rounded-t-[8px]" />', { registry: radiusRegistry });
+
+    // Tailwind v4 only generates classes for --radius-* variables
+    expect(code).toBe('<span className="rounded-md rounded-t-[var(--border-radius-lg)]" />');
+  });
+
+  it('should load DTCG and Tailwind config token files by extension', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'token-transformer-'));
+    const dtcgPath = path.join(tempDir, 'tokens.json');
+    const configPath = path.join(tempDir, 'tailwind.config.cjs');
+    await fs.writeFile(dtcgPath, JSON.stringify({ brand: { $type: 'color', $value: '#25c9d0' } }));
+    await fs.writeFile(configPath, `module.exports = { theme: { colors: { primary: '#25c9d0' } } };\n`);
+
+    try {
+      const source = '<span className="bg-[#25c9d0]" />';
+
+      expect((await transformComponent(source, { tokenPath: dtcgPath })).code).toBe('<span className="bg-[var(--brand)]" />');
+      expect((await transformComponent(source, { tokenPath: configPath })).code).toBe('<span className="bg-primary" />');
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should rewrite arbitrary classes to utilities with the same prefix', async () => {
+    const tailwindRegistry = new TokenRegistry({
+      tailwindConfig: {
+        theme: {
+          colors: { gray: { 100: '#eeeeee' } },
+          spacing: { 4: '1rem' },
+          borderRadius: { DEFAULT: '0.25rem' }
+        }
+      }
+    });
+    await tailwindRegistry.initialize();
+
+    const source = '<div className="flex  mt-[16px] border-[#eee]\titems-center px-[1rem] rounded-[4px] hover:underline">Hi</div>';
+    const { code } = await transformComponent(source, { registry: tailwindRegistry });
+
+    expect(code).toBe('<div className="flex  mt-4 border-gray-100\titems-center px-4 rounded hover:underline">Hi</div>');
+  });
+
+  it('should only reference Tailwind config tokens where the config applies', async () => {
+    const tailwindRegistry = new TokenRegistry({
+      tailwindConfig: { theme: { colors: { gray: { 100: '#eeeeee' } }, spacing: { '2.5': '10px' } } }
+    });
+    await tailwindRegistry.initialize();
+
+    // The config defines no CSS variables, so inline styles are left alone
+    const component = await transformComponent(
+      `<div className="p-[10px]" style={{ color: '#eee', padding: '10px' }} />`,
+      { registry: tailwindRegistry }
+    );
+    expect(component.code).toBe(`<div className="p-2.5" style={{ color: '#eee', padding: '10px' }} />`);
+
+    const stylesheet = await transformComponent(
+      '.card { color: rgba(238, 238, 238, 0.5); padding: 10px; }',
+      { registry: tailwindRegistry, filePath: 'card.css' }
+    );
+    expect(stylesheet.code).toBe('.card { color: theme(colors.gray.100 / 50%); padding: theme(spacing[2.5]); }');
+  });
+
+  it('should keep variants and modifiers when rewriting classes', async () => {
+    const tailwindRegistry = new TokenRegistry({
+      tailwindConfig: {
+        theme: {
+          colors: { gray: { 100: '#eeeeee' } },
+          spacing: { 2: '0.5rem', 4: '1rem' }
+        }
+      }
+    });
+    await tailwindRegistry.initialize();
+
+    const source = '<div className="hover:bg-[#eee] md:dark:!-mt-[8px] gap-x-[1rem]! [&>svg]:fill-[#eee]/50 text-[color:#eee]">Hi</div>';
+    const { code } = await transformComponent(source, { registry: tailwindRegistry });
+
+    expect(code).toBe('<div className="hover:bg-gray-100 md:dark:!-mt-2 gap-x-4! [&>svg]:fill-gray-100/50 text-gray-100">Hi</div>');
+  });
+
+  it('should replace default theme classes with the nearest token class', async () => {
+    const themeRegistry = new TokenRegistry({
+      cssContent: '@theme { --color-brand: #4f46e4; --spacing-sm: 0.75rem; --color-blue-500: #3b82f6; }'
+    });
+    await themeRegistry.initialize();
+
+    const source = '<div className="md:bg-indigo-600 !p-3 text-blue-500 flex">Hi</div>';
+    const { code } = await transformComponent(source, { registry: themeRegistry, defaultTheme: true });
+
+    // text-blue-500 is a class of the --color-blue-500 token, so it is kept
+    expect(code).toBe('<div className="md:bg-brand !p-sm text-blue-500 flex">Hi</div>');
+
+    const translucent = await transformComponent('<div className="bg-indigo-600/50 border-indigo-600/[0.3]!" />', {
+      registry: themeRegistry,
+      defaultTheme: true
+    });
+    expect(translucent.code).toBe('<div className="bg-brand/50 border-brand/30!" />');
+
+    const dtcgRegistry = new TokenRegistry({
+      dtcgContent: { brand: { $type: 'color', $value: '#4f46e5' } }
+    });
+    await dtcgRegistry.initialize();
+
+    const dtcg = await transformComponent(source, { registry: dtcgRegistry, defaultTheme: true, categories: ['color'] });
+    // blue-500 is visibly different from the brand color, so it is kept
+    expect(dtcg.code).toBe('<div className="md:bg-[var(--brand)] !p-3 text-blue-500 flex">Hi</div>');
+  });
+
+  it('should keep arbitrary values for tokens without a Tailwind key', async () => {
+    const dtcgRegistry = new TokenRegistry({
+      dtcgContent: { brand: { $type: 'color', $value: '#25c9d0' } }
+    });
+    await dtcgRegistry.initialize();
+
+    const { code } = await transformComponent('<span className="bg-[#25c9d0]" />', { registry: dtcgRegistry });
+
+    expect(code).toBe('<span className="bg-[var(--brand)]" />');
+  });
+
+  it('should apply token opacity to translucent colors', async () => {
+    const source = `
+      <div style={{ color: 'rgba(37, 201, 208, 0.5)' }}>
+        <span className="p-2 bg-[rgba(37,201,208,0.8)] rounded-[4px]">Hi</span>
+      </div>
+    `;
+
+    const { code } = await transformComponent(source, { registry });
+
+    expect(code).toContain(`color: 'color-mix(in srgb, var(--color-primary) 50%, transparent)'`);
+    expect(code).toContain('className="p-2 bg-primary/80 rounded-sm"');
+
+    const relative = await transformComponent(source, { registry, alphaFormat: 'relative-color' });
+    expect(relative.code).toContain(`color: 'rgb(from var(--color-primary) r g b / 50%)'`);
+  });
+
+  it('should use the token class name with an opacity modifier', async () => {
+    const tailwindRegistry = new TokenRegistry({
+      tailwindConfig: { theme: { colors: { primary: '#25c9d0' } } }
+    });
+    await tailwindRegistry.initialize();
+
+    const { code } = await transformComponent(
+      '<span className="bg-[#25c9d080]">Hi</span>',
+      { registry: tailwindRegistry }
+    );
+
+    expect(code).toBe('<span className="bg-primary/50">Hi</span>');
+  });
+
+  it('should replace sibling typography classes with a text-style class', async () => {
+    const typographyRegistry = new TokenRegistry({
+      cssContent: '@theme { --text-h1: 1.25rem; --text-h1--line-height: 1.75rem; --text-h1--font-weight: 600; }'
+    });
+    await typographyRegistry.initialize();
+
+    const { code, transformations } = await transformComponent(
+      '<h1 className="mt-2 text-[20px] uppercase leading-[28px] font-[600]">Title</h1>',
+      { registry: typographyRegistry }
+    );
+
+    expect(code).toBe('<h1 className="mt-2 text-h1 uppercase">Title</h1>');
+    expect(transformations.map(transformation => transformation.transformed)).toEqual(['text-h1', '', '']);
+
+    const responsive = await transformComponent(
+      '<h1 className="text-[16px] md:text-[20px] md:leading-[28px] md:font-[600]">Title</h1>',
+      { registry: typographyRegistry }
+    );
+
+    expect(responsive.code).toBe('<h1 className="text-[16px] md:text-h1">Title</h1>');
+  });
+
+  it('should keep typography classes without a close text style', async () => {
+    const typographyRegistry = new TokenRegistry({
+      cssContent: ':root { --text-h1: 1.25rem; --text-h1--line-height: 1.75rem; }'
+    });
+    await typographyRegistry.initialize();
+
+    const source = '<p className="text-[12px] leading-[16px]">Note</p>';
+    const { code } = await transformComponent(source, { registry: typographyRegistry });
+
+    expect(code).toBe(source);
+  });
+
+  it('should rewrite shorthands as lists of token references', async () => {
+    const source = `
+      <div style={{ margin: '16px 24px', padding: '1rem auto' }}>
+        <span className="p-[16px_24px] rounded-[4px_4px_0_0]">Hi</span>
+      </div>
+    `;
+
+    const { code } = await transformComponent(source, { registry });
+
+    expect(code).toContain(`margin: 'var(--spacing-sm) var(--spacing-md)'`);
+    expect(code).toContain(`padding: 'var(--spacing-sm) auto'`);
+    expect(code).toContain('p-[var(--spacing-sm)_var(--spacing-md)]');
+    expect(code).toContain('rounded-[var(--radius-sm)_var(--radius-sm)_0_0]');
+  });
+
+  it('should require a token source', async () => {
+    await expect(transformComponent('<div />')).rejects.toThrow('No token source provided');
+  });
+});
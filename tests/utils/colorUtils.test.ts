@@ -0,0 +1,168 @@
+/**
+ * Tests for color utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateColorDistance,
+  deltaE2000,
+  deltaEOK,
+  isColorString,
+  parseColor,
+  rgbToLab,
+  rgbToOklab,
+  rgbToOklch
+} from '../../src/utils/colorUtils.js';
+
+describe('colorUtils', () => {
+  describe('parseColor', () => {
+    it('should parse hex, named and legacy colors', () => {
+      expect(parseColor('#F50').hex).toBe('#FF5500');
+      expect(parseColor('#f008').rgb.a).toBeCloseTo(0.533, 3);
+      expect(parseColor('rebeccapurple').hex).toBe('#663399');
+      expect(parseColor('RebeccaPurple').hex).toBe('#663399');
+      expect(parseColor('rgba(255, 0, 0, 0.5)').rgb).toEqual({ r: 255, g: 0, b: 0, a: 0.5 });
+      expect(parseColor('hsl(120, 100%, 50%)').hex).toBe('#00ff00');
+      expect(parseColor('transparent').rgb.a).toBe(0);
+    });
+
+    it('should parse space-separated syntax with slash alpha', () => {
+      expect(parseColor('rgb(0 0 0 / 50%)').rgb).toEqual({ r: 0, g: 0, b: 0, a: 0.5 });
+      expect(parseColor('rgb(100% 50% 0%)').hex).toBe('#ff8000');
+      expect(parseColor('hsl(120deg 100% 25% / 0.25)').rgb).toEqual({ r: 0, g: 128, b: 0, a: 0.25 });
+      expect(parseColor('hsl(0.5turn 100% 50%)').hex).toBe('#00ffff');
+    });
+
+    it('should convert OKLCH, OKLab, Lab, LCH and HWB to sRGB', () => {
+      // sRGB red in each space, from the CSS Color 4 specification
+      const reds = [
+        'oklch(62.8% 0.2577 29.23)',
+        'oklab(0.628 0.2249 0.1258)',
+        'lab(54.29% 80.82 69.88)',
+        'lch(54.29% 106.84 40.85)',
+        'hwb(0 0% 0%)',
+        'color(srgb 1 0 0)',
+        'color(xyz-d65 0.4124 0.2126 0.0193)'
+      ];
+
+      for (const red of reds) {
+        const { rgb } = parseColor(red);
+        expect(rgb.r).toBeGreaterThanOrEqual(254);
+        expect(rgb.g).toBeLessThanOrEqual(1);
+        expect(rgb.b).toBeLessThanOrEqual(1);
+      }
+
+      expect(parseColor('hwb(0 50% 50%)').hex).toBe('#808080');
+      expect(parseColor('oklch(1 0 0)').hex).toBe('#ffffff');
+      expect(parseColor('oklch(70% 0.1 200)').oklch).toEqual({ l: 0.7, c: 0.1, h: 200, a: undefined });
+    });
+
+    it('should gamut map colors outside sRGB', () => {
+      const p3Red = parseColor('color(display-p3 1 0 0)');
+      expect(p3Red.rgb.r).toBe(255);
+      expect(p3Red.rgb.g).toBeLessThan(30);
+      expect(p3Red.rgb.b).toBeLessThan(30);
+
+      // Mapping reduces chroma but keeps lightness and hue
+      const vivid = parseColor('oklch(0.7 0.4 150)');
+      const mapped = rgbToOklch(vivid.rgb);
+      expect(mapped.l).toBeCloseTo(0.7, 1);
+      expect(mapped.h).toBeGreaterThan(140);
+      expect(mapped.h).toBeLessThan(160);
+      expect(mapped.c).toBeLessThan(0.4);
+    });
+
+    it('should recognize supported color strings', () => {
+      expect(isColorString('lab(50% 40 59.5)')).toBe(true);
+      expect(isColorString('color(display-p3 0.5 0.2 0.1 / 0.8)')).toBe(true);
+      expect(isColorString('tomato')).toBe(true);
+      expect(isColorString('var(--color-primary)')).toBe(false);
+      expect(isColorString('rgb(a b c)')).toBe(false);
+      expect(isColorString('color(unknown 1 0 0)')).toBe(false);
+      expect(isColorString('inherit')).toBe(false);
+    });
+  });
+
+  describe('Color space conversion', () => {
+    it('should convert sRGB to OKLab', () => {
+      // Reference values from Björn Ottosson's OKLab definition
+      const white = rgbToOklab({ r: 255, g: 255, b: 255 });
+      expect(white.l).toBeCloseTo(1, 4);
+      expect(white.a).toBeCloseTo(0, 4);
+      expect(white.b).toBeCloseTo(0, 4);
+
+      const red = rgbToOklab({ r: 255, g: 0, b: 0 });
+      expect(red.l).toBeCloseTo(0.62796, 4);
+      expect(red.a).toBeCloseTo(0.22486, 4);
+      expect(red.b).toBeCloseTo(0.12585, 4);
+    });
+
+    it('should convert sRGB to CIELAB', () => {
+      const white = rgbToLab({ r: 255, g: 255, b: 255 });
+      expect(white.l).toBeCloseTo(100, 2);
+      expect(white.a).toBeCloseTo(0, 2);
+      expect(white.b).toBeCloseTo(0, 2);
+
+      const red = rgbToLab({ r: 255, g: 0, b: 0 });
+      expect(red.l).toBeCloseTo(53.24, 1);
+      expect(red.a).toBeCloseTo(80.09, 1);
+      expect(red.b).toBeCloseTo(67.2, 1);
+    });
+  });
+
+  describe('deltaE2000', () => {
+    it('should match the Sharma, Wu and Dalal reference pairs', () => {
+      const pairs: Array<[[number, number, number], [number, number, number], number]> = [
+        [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+        [[50, 3.1571, -77.2803], [50, 0, -82.7485], 2.8615],
+        [[50, 0, 0], [50, -1, 2], 2.3669],
+        [[50, 2.49, -0.001], [50, -2.49, 0.0011], 7.2195],
+        [[50, 2.5, 0], [73, 25, -18], 27.1492],
+        [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+        [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373],
+        [[90.9257, -0.5406, -0.9208], [88.6381, -0.8985, -0.7239], 1.5381]
+      ];
+
+      for (const [[l1, a1, b1], [l2, a2, b2], expected] of pairs) {
+        expect(deltaE2000({ l: l1, a: a1, b: b1 }, { l: l2, a: a2, b: b2 })).toBeCloseTo(expected, 4);
+        // The difference is symmetric
+        expect(deltaE2000({ l: l2, a: a2, b: b2 }, { l: l1, a: a1, b: b1 })).toBeCloseTo(expected, 4);
+      }
+    });
+  });
+
+  describe('deltaEOK', () => {
+    it('should measure black to white as 1', () => {
+      const black = rgbToOklab({ r: 0, g: 0, b: 0 });
+      const white = rgbToOklab({ r: 255, g: 255, b: 255 });
+
+      expect(deltaEOK(black, white)).toBeCloseTo(1, 4);
+    });
+  });
+
+  describe('calculateColorDistance', () => {
+    it('should scale every metric between 0 and 1 by noticeable differences', () => {
+      const black = { r: 0, g: 0, b: 0 };
+      const white = { r: 255, g: 255, b: 255 };
+
+      for (const metric of ['oklab', 'ciede2000', 'rgb'] as const) {
+        expect(calculateColorDistance(black, black, metric)).toBe(0);
+        expect(calculateColorDistance(black, white, metric)).toBeCloseTo(1, 3);
+      }
+    });
+
+    it('should rank colors perceptually by default', () => {
+      // Adding blue to yellow barely changes how it looks, while darkening it
+      // is obvious, even though the darker yellow is closer in RGB
+      const yellow = { r: 255, g: 255, b: 0 };
+      const darkYellow = { r: 240, g: 240, b: 0 };
+      const paleYellow = { r: 255, g: 255, b: 24 };
+
+      expect(calculateColorDistance(yellow, darkYellow, 'rgb'))
+        .toBeLessThan(calculateColorDistance(yellow, paleYellow, 'rgb'));
+      expect(calculateColorDistance(yellow, paleYellow)).toBeLessThan(calculateColorDistance(yellow, darkYellow));
+      expect(calculateColorDistance(yellow, paleYellow, 'ciede2000'))
+        .toBeLessThan(calculateColorDistance(yellow, darkYellow, 'ciede2000'));
+    });
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Tests for box-shadow utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareShadows, parseShadow } from '../../src/utils/shadowUtils.js';
+
+describe('shadowUtils', () => {
+  describe('parseShadow', () => {
+    it('should parse layers with the color and inset keyword in any position', () => {
+      expect(parseShadow('0 2px 4px rgba(0, 0, 0, 0.1)')).toEqual([
+        { inset: false, x: '0', y: '2px', blur: '4px', spread: '0', color: 'rgba(0, 0, 0, 0.1)' }
+      ]);
+      expect(parseShadow('#000 1px 1px inset, 0 0 0 1px red')).toEqual([
+        { inset: true, x: '1px', y: '1px', blur: '0', spread: '0', color: '#000' },
+        { inset: false, x: '0', y: '0', blur: '0', spread: '1px', color: 'red' }
+      ]);
+    });
+
+    it('should reject values that are not shadows', () => {
+      expect(parseShadow('none')).toBeNull();
+      expect(parseShadow('2px')).toBeNull();
+      expect(parseShadow('1px 2px 3px 4px 5px black')).toBeNull();
+    });
+  });
+
+  describe('compareShadows', () => {
+    it('should compare lengths across units and colors across formats', () => {
+      const shadow = parseShadow('0 0.125rem 0.25rem rgb(0 0 0 / 10%)')!;
+
+      expect(compareShadows(shadow, parseShadow('0px 2px 4px #0000001a')!)).toBe(1);
+      expect(compareShadows(shadow, parseShadow('inset 0 2px 4px rgb(0 0 0 / 10%)')!)).toBe(0);
+      expect(compareShadows(shadow, parseShadow('0 2px 4px rgb(0 0 0 / 30%)')!)).toBeCloseTo(0.8, 3);
+    });
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Tests for typography utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareTypography } from '../../src/utils/typographyUtils.js';
+
+describe('typographyUtils', () => {
+  describe('compareTypography', () => {
+    it('should compare values across units and formats', () => {
+      expect(compareTypography(
+        { fontSize: '16px', lineHeight: '24px', fontWeight: 'bold', fontFamily: 'Inter, sans-serif' },
+        { fontSize: '1rem', lineHeight: 1.5, fontWeight: 700, fontFamily: '"Inter", sans-serif' }
+      )).toBe(1);
+      expect(compareTypography({ fontSize: '10px', lineHeight: '150%' }, { fontSize: '10px', lineHeight: 1.5 })).toBe(1);
+      expect(compareTypography({ fontSize: '10px' }, { fontSize: '1rem' }, { rootFontSize: 10 })).toBe(1);
+    });
+
+    it('should score properties missing on either side', () => {
+      // The text style lacks the letter spacing
+      expect(compareTypography({ fontSize: '16px', letterSpacing: '1px' }, { fontSize: '16px' })).toBe(0.5);
+      // The text style would add a font weight
+      expect(compareTypography({ fontSize: '16px' }, { fontSize: '16px', fontWeight: 600 })).toBe(0.75);
+    });
+
+    it('should give partial credit for near values', () => {
+      expect(compareTypography({ fontWeight: '500' }, { fontWeight: 600 })).toBe(0.75);
+      expect(compareTypography({ fontSize: '15px' }, { fontSize: '16px' })).toBeCloseTo(0.9375, 4);
+      expect(compareTypography({ fontFamily: 'Inter, Arial' }, { fontFamily: 'Inter, sans-serif' })).toBe(0.75);
+      expect(compareTypography({ fontFamily: 'Arial' }, { fontFamily: 'Inter' })).toBe(0);
+    });
+  });
+});
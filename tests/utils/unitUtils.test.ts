@@ -0,0 +1,38 @@
+/**
+ * Tests for CSS length utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseLength, toPixels } from '../../src/utils/unitUtils.js';
+
+describe('unitUtils', () => {
+  describe('parseLength', () => {
+    it('should split lengths into value and unit', () => {
+      expect(parseLength('1.5rem')).toEqual({ value: 1.5, unit: 'rem' });
+      expect(parseLength(' -8PX ')).toEqual({ value: -8, unit: 'px' });
+      expect(parseLength('.5em')).toEqual({ value: 0.5, unit: 'em' });
+      expect(parseLength('0')).toEqual({ value: 0, unit: '' });
+    });
+
+    it('should reject values that are not a single length', () => {
+      expect(parseLength('16')).toBeNull();
+      expect(parseLength('8px 16px')).toBeNull();
+      expect(parseLength('calc(1rem + 2px)')).toBeNull();
+      expect(parseLength('auto')).toBeNull();
+    });
+  });
+
+  describe('toPixels', () => {
+    it('should convert px, rem and em lengths', () => {
+      expect(toPixels('12px')).toBe(12);
+      expect(toPixels('1.5rem')).toBe(24);
+      expect(toPixels('2em', 10)).toBe(20);
+      expect(toPixels('0')).toBe(0);
+    });
+
+    it('should not convert layout-dependent units', () => {
+      expect(toPixels('50%')).toBeNull();
+      expect(toPixels('10vh')).toBeNull();
+    });
+  });
+});